@@ -5,18 +5,27 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 import * as dotenv from "dotenv";
 
-import { createSalesforceConnection } from "./utils/connection.js";
-import { SEARCH_OBJECTS, handleSearchObjects } from "./tools/search.js";
-import { DESCRIBE_OBJECT, handleDescribeObject } from "./tools/describe.js";
+import { getSalesforceConnection, resetSalesforceConnection, isInvalidSessionError } from "./utils/connectionManager.js";
+import { listOrgNames, loadOrgProfiles, resolveOrgProfile } from "./utils/orgProfiles.js";
+import { getRuntimeConfig } from "./utils/config.js";
+import { logger } from "./utils/logger.js";
+import { OutputFormat } from "./utils/outputFormat.js";
+import { SEARCH_OBJECTS, handleSearchObjects, SearchObjectsArgs, ObjectCategory } from "./tools/search.js";
+import { DESCRIBE_OBJECT, handleDescribeObject, DescribeObjectArgs, DescribeSection } from "./tools/describe.js";
+import { RELATIONSHIP_GRAPH, handleRelationshipGraph, RelationshipGraphArgs, GraphDirection, GraphFormat } from "./tools/relationshipGraph.js";
 import { QUERY_RECORDS, handleQueryRecords, QueryArgs } from "./tools/query.js";
 import { AGGREGATE_QUERY, handleAggregateQuery, AggregateQueryArgs } from "./tools/aggregateQuery.js";
 import { DML_RECORDS, handleDMLRecords, DMLArgs } from "./tools/dml.js";
-import { manageObject, ManageObjectArgs } from "./tools/manageObject.js";
-const MANAGE_OBJECT = { name: "MANAGE_OBJECT" };
-import { MANAGE_FIELD, handleManageField, ManageFieldArgs } from "./tools/manageField.js";
+import { DML_JOURNAL, handleDMLJournal, DMLJournalArgs } from "./tools/dmlJournal.js";
+import { MANAGE_OBJECT, handleManageObject, ManageObjectArgs, ObjectOperation } from "./tools/manageObject.js";
+import { MANAGE_FIELD, handleManageField, ManageFieldArgs, FieldOperation, FormulaReturnType } from "./tools/manageField.js";
+import { MANAGE_RECORD_TYPE, handleManageRecordType, ManageRecordTypeArgs, RecordTypePicklistAssignment } from "./tools/manageRecordType.js";
+import { MANAGE_LAYOUT, handleManageLayout, ManageLayoutArgs, LayoutOperation } from "./tools/manageLayout.js";
+import { MANAGE_VALIDATION_RULE, handleManageValidationRule, ManageValidationRuleArgs, ValidationRuleOperation } from "./tools/manageValidationRule.js";
 import { MANAGE_FIELD_PERMISSIONS, handleManageFieldPermissions, ManageFieldPermissionsArgs } from "./tools/manageFieldPermissions.js";
 import { SEARCH_ALL, handleSearchAll, SearchAllArgs, WithClause } from "./tools/searchAll.js";
 import { READ_APEX, handleReadApex, ReadApexArgs } from "./tools/readApex.js";
@@ -25,6 +34,7 @@ import { READ_APEX_TRIGGER, handleReadApexTrigger, ReadApexTriggerArgs } from ".
 import { WRITE_APEX_TRIGGER, handleWriteApexTrigger, WriteApexTriggerArgs } from "./tools/writeApexTrigger.js";
 import { EXECUTE_ANONYMOUS, handleExecuteAnonymous, ExecuteAnonymousArgs } from "./tools/executeAnonymous.js";
 import { MANAGE_DEBUG_LOGS, handleManageDebugLogs, ManageDebugLogsArgs } from "./tools/manageDebugLogs.js";
+import { CONNECTION_STATUS, handleConnectionStatus } from "./tools/connectionStatus.js";
 
 dotenv.config();
 
@@ -32,32 +42,72 @@ const toolRegistry = {
   [SEARCH_OBJECTS.name]: {
     definition: SEARCH_OBJECTS,
     handler: (conn: any, args: unknown) => {
-      const { searchPattern } = args as { searchPattern: string };
-      if (!searchPattern) throw new Error('searchPattern is required');
-      return handleSearchObjects(conn, searchPattern);
+      const searchArgs = args as Record<string, unknown>;
+      if (!searchArgs.searchPattern && !Array.isArray(searchArgs.objectTypes)) {
+        throw new Error('searchPattern or objectTypes is required');
+      }
+      const validatedArgs: SearchObjectsArgs = {
+        searchPattern: searchArgs.searchPattern as string | undefined,
+        objectTypes: searchArgs.objectTypes as ObjectCategory[] | undefined,
+        limit: searchArgs.limit as number | undefined
+      };
+      return handleSearchObjects(conn, validatedArgs);
     },
   },
   [DESCRIBE_OBJECT.name]: {
     definition: DESCRIBE_OBJECT,
     handler: (conn: any, args: unknown) => {
-      const { objectName } = args as { objectName: string };
-      if (!objectName) throw new Error('objectName is required');
-      return handleDescribeObject(conn, objectName);
+      const describeArgs = args as Record<string, unknown>;
+      if (!describeArgs.objectName) throw new Error('objectName is required');
+      const validatedArgs: DescribeObjectArgs = {
+        objectName: describeArgs.objectName as string,
+        customOnly: describeArgs.customOnly as boolean | undefined,
+        fieldTypes: describeArgs.fieldTypes as string[] | undefined,
+        namePattern: describeArgs.namePattern as string | undefined,
+        createableOnly: describeArgs.createableOnly as boolean | undefined,
+        updateableOnly: describeArgs.updateableOnly as boolean | undefined,
+        sections: describeArgs.sections as DescribeSection[] | undefined
+      };
+      return handleDescribeObject(conn, validatedArgs);
+    },
+  },
+  [RELATIONSHIP_GRAPH.name]: {
+    definition: RELATIONSHIP_GRAPH,
+    handler: (conn: any, args: unknown) => {
+      const graphArgs = args as Record<string, unknown>;
+      if (!Array.isArray(graphArgs.objectNames) || graphArgs.objectNames.length === 0) {
+        throw new Error('objectNames array is required for the relationship graph');
+      }
+      const validatedArgs: RelationshipGraphArgs = {
+        objectNames: graphArgs.objectNames as string[],
+        depth: graphArgs.depth as number | undefined,
+        direction: graphArgs.direction as GraphDirection | undefined,
+        format: graphArgs.format as GraphFormat | undefined,
+        includeSystem: graphArgs.includeSystem as boolean | undefined,
+        maxObjects: graphArgs.maxObjects as number | undefined
+      };
+      return handleRelationshipGraph(conn, validatedArgs);
     },
   },
   [QUERY_RECORDS.name]: {
     definition: QUERY_RECORDS,
     handler: (conn: any, args: unknown) => {
       const queryArgs = args as Record<string, unknown>;
-      if (!queryArgs.objectName || !Array.isArray(queryArgs.fields)) {
-        throw new Error('objectName and fields array are required for query');
+      if (!queryArgs.soql && (!queryArgs.objectName || !Array.isArray(queryArgs.fields))) {
+        throw new Error('soql, or objectName and fields array, are required for query');
       }
       const validatedArgs: QueryArgs = {
-        objectName: queryArgs.objectName as string,
-        fields: queryArgs.fields as string[],
+        objectName: queryArgs.objectName as string | undefined,
+        fields: queryArgs.fields as string[] | undefined,
+        soql: queryArgs.soql as string | undefined,
         whereClause: queryArgs.whereClause as string | undefined,
         orderBy: queryArgs.orderBy as string | undefined,
-        limit: queryArgs.limit as number | undefined
+        limit: queryArgs.limit as number | undefined,
+        maxRecords: queryArgs.maxRecords as number | undefined,
+        maxChildRecords: queryArgs.maxChildRecords as number | undefined,
+        cursor: queryArgs.cursor as string | undefined,
+        useBulk: queryArgs.useBulk as boolean | undefined,
+        outputFormat: queryArgs.outputFormat as OutputFormat | undefined
       };
       return handleQueryRecords(conn, validatedArgs);
     },
@@ -76,7 +126,8 @@ const toolRegistry = {
         whereClause: aggregateArgs.whereClause as string | undefined,
         havingClause: aggregateArgs.havingClause as string | undefined,
         orderBy: aggregateArgs.orderBy as string | undefined,
-        limit: aggregateArgs.limit as number | undefined
+        limit: aggregateArgs.limit as number | undefined,
+        outputFormat: aggregateArgs.outputFormat as OutputFormat | undefined
       };
       return handleAggregateQuery(conn, validatedArgs);
     },
@@ -89,14 +140,34 @@ const toolRegistry = {
         throw new Error('operation, objectName, and records array are required for DML');
       }
       const validatedArgs: DMLArgs = {
-        operation: dmlArgs.operation as 'insert' | 'update' | 'delete' | 'upsert',
+        operation: dmlArgs.operation as DMLArgs['operation'],
         objectName: dmlArgs.objectName as string,
         records: dmlArgs.records as Record<string, any>[],
-        externalIdField: dmlArgs.externalIdField as string | undefined
+        externalIdField: dmlArgs.externalIdField as string | undefined,
+        allOrNone: dmlArgs.allOrNone as boolean | undefined,
+        useBulk: dmlArgs.useBulk as boolean | undefined,
+        skipValidation: dmlArgs.skipValidation as boolean | undefined,
+        dryRun: dmlArgs.dryRun as boolean | undefined,
+        confirmationToken: dmlArgs.confirmationToken as string | undefined
       };
       return handleDMLRecords(conn, validatedArgs);
     },
   },
+  [DML_JOURNAL.name]: {
+    definition: DML_JOURNAL,
+    handler: (conn: any, args: unknown) => {
+      const journalArgs = args as Record<string, unknown>;
+      if (!journalArgs.action) {
+        throw new Error('action is required for the DML journal');
+      }
+      const validatedArgs: DMLJournalArgs = {
+        action: journalArgs.action as 'list' | 'revert',
+        entryId: journalArgs.entryId as string | undefined,
+        force: journalArgs.force as boolean | undefined
+      };
+      return handleDMLJournal(conn, validatedArgs);
+    },
+  },
   [MANAGE_OBJECT.name]: {
     definition: MANAGE_OBJECT,
     handler: (conn: any, args: unknown) => {
@@ -105,7 +176,7 @@ const toolRegistry = {
         throw new Error('operation and objectName are required for object management');
       }
       const validatedArgs: ManageObjectArgs = {
-        operation: objectArgs.operation as 'create' | 'update',
+        operation: objectArgs.operation as ObjectOperation,
         objectName: objectArgs.objectName as string,
         label: objectArgs.label as string | undefined,
         pluralLabel: objectArgs.pluralLabel as string | undefined,
@@ -113,9 +184,15 @@ const toolRegistry = {
         nameFieldLabel: objectArgs.nameFieldLabel as string | undefined,
         nameFieldType: objectArgs.nameFieldType as 'Text' | 'AutoNumber' | undefined,
         nameFieldFormat: objectArgs.nameFieldFormat as string | undefined,
-        sharingModel: objectArgs.sharingModel as 'ReadWrite' | 'Read' | 'Private' | 'ControlledByParent' | undefined
+        sharingModel: objectArgs.sharingModel as 'ReadWrite' | 'Read' | 'Private' | 'ControlledByParent' | undefined,
+        enableHistory: objectArgs.enableHistory as boolean | undefined,
+        enableReports: objectArgs.enableReports as boolean | undefined,
+        enableActivities: objectArgs.enableActivities as boolean | undefined,
+        enableSearch: objectArgs.enableSearch as boolean | undefined,
+        dryRun: objectArgs.dryRun as boolean | undefined,
+        confirmationToken: objectArgs.confirmationToken as string | undefined
       };
-      return manageObject(conn, validatedArgs);
+      return handleManageObject(conn, validatedArgs);
     },
   },
   [MANAGE_FIELD.name]: {
@@ -126,7 +203,7 @@ const toolRegistry = {
         throw new Error('operation, objectName, and fieldName are required for field management');
       }
       const validatedArgs: ManageFieldArgs = {
-        operation: fieldArgs.operation as 'create' | 'update',
+        operation: fieldArgs.operation as FieldOperation,
         objectName: fieldArgs.objectName as string,
         fieldName: fieldArgs.fieldName as string,
         label: fieldArgs.label as string | undefined,
@@ -142,12 +219,86 @@ const toolRegistry = {
         relationshipName: fieldArgs.relationshipName as string | undefined,
         deleteConstraint: fieldArgs.deleteConstraint as 'Cascade' | 'Restrict' | 'SetNull' | undefined,
         picklistValues: fieldArgs.picklistValues as Array<{ label: string; isDefault?: boolean }> | undefined,
+        valueSetName: fieldArgs.valueSetName as string | undefined,
+        formula: fieldArgs.formula as string | undefined,
+        returnType: fieldArgs.returnType as FormulaReturnType | undefined,
+        summaryOperation: fieldArgs.summaryOperation as 'count' | 'sum' | 'min' | 'max' | undefined,
+        summarizedField: fieldArgs.summarizedField as string | undefined,
+        summaryForeignKey: fieldArgs.summaryForeignKey as string | undefined,
+        displayFormat: fieldArgs.displayFormat as string | undefined,
+        startingNumber: fieldArgs.startingNumber as number | undefined,
+        maskType: fieldArgs.maskType as string | undefined,
+        maskChar: fieldArgs.maskChar as string | undefined,
         description: fieldArgs.description as string | undefined,
-        grantAccessTo: fieldArgs.grantAccessTo as string[] | undefined
+        grantAccessTo: fieldArgs.grantAccessTo as string[] | undefined,
+        dryRun: fieldArgs.dryRun as boolean | undefined,
+        confirmationToken: fieldArgs.confirmationToken as string | undefined
       };
       return handleManageField(conn, validatedArgs);
     },
   },
+  [MANAGE_RECORD_TYPE.name]: {
+    definition: MANAGE_RECORD_TYPE,
+    handler: (conn: any, args: unknown) => {
+      const recordTypeArgs = args as Record<string, unknown>;
+      if (!recordTypeArgs.operation || !recordTypeArgs.objectName || !recordTypeArgs.recordTypeName) {
+        throw new Error('operation, objectName, and recordTypeName are required for record type management');
+      }
+      const validatedArgs: ManageRecordTypeArgs = {
+        operation: recordTypeArgs.operation as 'create' | 'update',
+        objectName: recordTypeArgs.objectName as string,
+        recordTypeName: recordTypeArgs.recordTypeName as string,
+        label: recordTypeArgs.label as string | undefined,
+        description: recordTypeArgs.description as string | undefined,
+        active: recordTypeArgs.active as boolean | undefined,
+        businessProcess: recordTypeArgs.businessProcess as string | undefined,
+        picklistValues: recordTypeArgs.picklistValues as RecordTypePicklistAssignment[] | undefined
+      };
+      return handleManageRecordType(conn, validatedArgs);
+    },
+  },
+  [MANAGE_LAYOUT.name]: {
+    definition: MANAGE_LAYOUT,
+    handler: (conn: any, args: unknown) => {
+      const layoutArgs = args as Record<string, unknown>;
+      if (!layoutArgs.operation || !layoutArgs.objectName) {
+        throw new Error('operation and objectName are required for layout management');
+      }
+      const validatedArgs: ManageLayoutArgs = {
+        operation: layoutArgs.operation as LayoutOperation,
+        objectName: layoutArgs.objectName as string,
+        layoutName: layoutArgs.layoutName as string | undefined,
+        fields: layoutArgs.fields as string[] | undefined,
+        sectionLabel: layoutArgs.sectionLabel as string | undefined,
+        column: layoutArgs.column as number | undefined,
+        afterField: layoutArgs.afterField as string | undefined,
+        behavior: layoutArgs.behavior as 'Edit' | 'Required' | 'Readonly' | undefined
+      };
+      return handleManageLayout(conn, validatedArgs);
+    },
+  },
+  [MANAGE_VALIDATION_RULE.name]: {
+    definition: MANAGE_VALIDATION_RULE,
+    handler: (conn: any, args: unknown) => {
+      const ruleArgs = args as Record<string, unknown>;
+      if (!ruleArgs.operation || !ruleArgs.objectName) {
+        throw new Error('operation and objectName are required for validation rule management');
+      }
+      const validatedArgs: ManageValidationRuleArgs = {
+        operation: ruleArgs.operation as ValidationRuleOperation,
+        objectName: ruleArgs.objectName as string,
+        ruleName: ruleArgs.ruleName as string | undefined,
+        formula: ruleArgs.formula as string | undefined,
+        errorMessage: ruleArgs.errorMessage as string | undefined,
+        errorDisplayField: ruleArgs.errorDisplayField as string | undefined,
+        description: ruleArgs.description as string | undefined,
+        active: ruleArgs.active as boolean | undefined,
+        sampleRecordIds: ruleArgs.sampleRecordIds as string[] | undefined,
+        sampleRecords: ruleArgs.sampleRecords as Record<string, any>[] | undefined
+      };
+      return handleManageValidationRule(conn, validatedArgs);
+    },
+  },
   [MANAGE_FIELD_PERMISSIONS.name]: {
     definition: MANAGE_FIELD_PERMISSIONS,
     handler: (conn: any, args: unknown) => {
@@ -189,7 +340,8 @@ const toolRegistry = {
         })),
         withClauses: searchArgs.withClauses as WithClause[] | undefined,
         updateable: searchArgs.updateable as boolean | undefined,
-        viewable: searchArgs.viewable as boolean | undefined
+        viewable: searchArgs.viewable as boolean | undefined,
+        outputFormat: searchArgs.outputFormat as OutputFormat | undefined
       };
       return handleSearchAll(conn, validatedArgs);
     },
@@ -284,8 +436,50 @@ const toolRegistry = {
       return handleManageDebugLogs(conn, validatedArgs);
     },
   },
+  [CONNECTION_STATUS.name]: {
+    definition: CONNECTION_STATUS,
+    // Called without a connection by the CallTool handler; see there
+    handler: (_conn: any, _args: unknown) => handleConnectionStatus(),
+  },
 };
 
+// Tools that change data, metadata or code; blocked in read-only mode unless allow-listed
+const MUTATING_TOOLS = new Set<string>([
+  DML_RECORDS.name,
+  DML_JOURNAL.name,
+  MANAGE_OBJECT.name,
+  MANAGE_FIELD.name,
+  MANAGE_RECORD_TYPE.name,
+  MANAGE_LAYOUT.name,
+  MANAGE_VALIDATION_RULE.name,
+  MANAGE_FIELD_PERMISSIONS.name,
+  WRITE_APEX.name,
+  WRITE_APEX_TRIGGER.name,
+  EXECUTE_ANONYMOUS.name,
+]);
+
+// Read-only tools that can safely run a second time after the session expired part way through
+const RETRYABLE_TOOLS = new Set<string>([
+  SEARCH_OBJECTS.name,
+  DESCRIBE_OBJECT.name,
+  RELATIONSHIP_GRAPH.name,
+  QUERY_RECORDS.name,
+  AGGREGATE_QUERY.name,
+  SEARCH_ALL.name,
+  READ_APEX.name,
+  READ_APEX_TRIGGER.name,
+]);
+
+function isBlockedByReadOnly(toolName: string, orgReadOnly = false): boolean {
+  const { readOnly, readOnlyAllowedTools } = getRuntimeConfig();
+  return (readOnly || orgReadOnly) && MUTATING_TOOLS.has(toolName) && !readOnlyAllowedTools.includes(toolName);
+}
+
+// Tool handlers report most failures as text, so an expired session can surface either way
+function isInvalidSessionResult(result: any): boolean {
+  return Boolean(result?.isError && result.content?.some((item: any) => isInvalidSessionError({ message: item.text })));
+}
+
 const server = new Server(
   {
     name: "salesforce-mcp-server",
@@ -299,8 +493,30 @@ const server = new Server(
 );
 
 // Tool handlers
+// Every tool accepts an optional org argument selecting the named org profile to run against
+function withOrgArgument(definition: Tool) {
+  const { defaultOrg } = loadOrgProfiles();
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: {
+        ...definition.inputSchema.properties,
+        org: {
+          type: "string",
+          enum: listOrgNames(),
+          description: `Named org profile to run against (defaults to '${defaultOrg}')`,
+          optional: true
+        }
+      }
+    }
+  };
+}
+
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: Object.values(toolRegistry).map((tool) => tool.definition),
+  tools: Object.values(toolRegistry)
+    .filter((tool) => !isBlockedByReadOnly(tool.definition.name))
+    .map((tool) => withOrgArgument(tool.definition)),
 }));
 
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
@@ -316,8 +532,51 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    const conn = await createSalesforceConnection();
-    return await tool.handler(conn, args);
+    const { org, ...toolArgs } = args as Record<string, unknown>;
+    if (org !== undefined && typeof org !== 'string') {
+      throw new Error('org must be the name of a configured org profile');
+    }
+
+    const { name: orgName, profile } = resolveOrgProfile(org);
+    if (isBlockedByReadOnly(name, profile.readOnly)) {
+      return {
+        content: [{
+          type: "text",
+          text: `Tool ${name} is disabled because read-only mode is enabled${profile.readOnly ? ` for org '${orgName}'` : ''}. ` +
+                `It can modify Salesforce data, metadata or code. To allow it, turn off read-only mode or add ${name} to the read-only allow-list (SALESFORCE_READ_ONLY_ALLOWED_TOOLS).`
+        }],
+        isError: true,
+      };
+    }
+
+    // The status report must not log in: it has to show the state of a connection that fails to
+    if (name === CONNECTION_STATUS.name) {
+      return await handleConnectionStatus(org);
+    }
+
+    // Tools that change data may have written part of their changes before the session expired, so they are
+    // not run again: the session is renewed for the next call and the error returned
+    const retryable = RETRYABLE_TOOLS.has(name);
+    const conn = await getSalesforceConnection(org);
+    try {
+      const result = await tool.handler(conn, toolArgs);
+      if (!isInvalidSessionResult(result)) return result;
+      if (!retryable) {
+        resetSalesforceConnection(org);
+        return result;
+      }
+    } catch (error) {
+      if (!isInvalidSessionError(error)) throw error;
+      if (!retryable) {
+        resetSalesforceConnection(org);
+        throw error;
+      }
+    }
+
+    // The session could not be refreshed in place; log in again and retry once
+    logger.warn(`Salesforce session expired while running ${name}, reconnecting`);
+    resetSalesforceConnection(org);
+    return await tool.handler(await getSalesforceConnection(org), toolArgs);
   } catch (error) {
     return {
       content: [{
@@ -329,10 +588,44 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// Checks that every registry entry advertises a callable tool, so a broken definition stops the server at startup
+function validateToolRegistry() {
+  const problems: string[] = [];
+  for (const [key, tool] of Object.entries(toolRegistry)) {
+    const definition = tool.definition as Partial<Tool> | undefined;
+    if (!definition || definition.name !== key) {
+      problems.push(`${key}: definition name does not match the registry key`);
+      continue;
+    }
+    if (!/^salesforce_[a-z0-9_]+$/.test(key)) {
+      problems.push(`${key}: tool names must be lowercase and start with salesforce_`);
+    }
+    if (typeof definition.description !== 'string' || definition.description.trim() === '') {
+      problems.push(`${key}: missing description`);
+    }
+    const schema = definition.inputSchema;
+    if (!schema || schema.type !== 'object' || typeof schema.properties !== 'object' || schema.properties === null) {
+      problems.push(`${key}: inputSchema must be an object schema with properties`);
+    } else {
+      const missing = (Array.isArray(schema.required) ? schema.required : []).filter(name => !(name in schema.properties!));
+      if (missing.length > 0) {
+        problems.push(`${key}: required arguments missing from properties: ${missing.join(', ')}`);
+      }
+    }
+    if (typeof tool.handler !== 'function') {
+      problems.push(`${key}: missing handler`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid tool registry:\n  ${problems.join('\n  ')}`);
+  }
+}
+
 async function runServer() {
+  validateToolRegistry();
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error("Salesforce MCP Server running on stdio");
+  logger.info("Salesforce MCP Server running on stdio");
 }
 
 runServer().catch((error) => {
@@ -1,4 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { OutputFormat, OUTPUT_FORMAT_PROPERTY, getFieldValue, toCsv, toMarkdownTable, structuredResponse } from "../utils/outputFormat.js";
 
 export const AGGREGATE_QUERY: Tool = {
   name: "salesforce_aggregate_query",
@@ -81,7 +82,8 @@ Important Rules:
         type: "number",
         description: "Maximum number of grouped results to return",
         optional: true
-      }
+      },
+      outputFormat: OUTPUT_FORMAT_PROPERTY
     },
     required: ["objectName", "selectFields", "groupByFields"]
   }
@@ -95,6 +97,7 @@ export interface AggregateQueryArgs {
   havingClause?: string;
   orderBy?: string;
   limit?: number;
+  outputFormat?: OutputFormat;
 }
 
 // Aggregate functions that don't need to be in GROUP BY
@@ -121,6 +124,21 @@ function extractNonAggregateFields(selectFields: string[]): string[] {
     .map(field => extractBaseField(field));
 }
 
+// Helper function to read the display name and value of a select field from a grouped result
+function getGroupValue(record: any, field: string): { displayName: string; value: unknown } {
+  const baseField = extractBaseField(field);
+  const fieldParts = field.trim().split(/\s+/);
+  const displayName = fieldParts.length > 1 ? fieldParts[fieldParts.length - 1] : baseField;
+
+  // Handle nested fields in results
+  if (baseField.includes('.')) {
+    return { displayName, value: getFieldValue(record, baseField) };
+  }
+
+  const value = record[baseField] ?? record[displayName];
+  return { displayName, value: value ?? null };
+}
+
 // Helper function to validate that all non-aggregate fields are in GROUP BY
 function validateGroupByFields(selectFields: string[], groupByFields: string[]): { isValid: boolean; missingFields?: string[] } {
   const nonAggregateFields = extractNonAggregateFields(selectFields);
@@ -177,7 +195,7 @@ function validateOrderBy(orderBy: string | undefined, groupByFields: string[], s
 }
 
 export async function handleAggregateQuery(conn: any, args: AggregateQueryArgs) {
-  const { objectName, selectFields, groupByFields, whereClause, havingClause, orderBy, limit } = args;
+  const { objectName, selectFields, groupByFields, whereClause, havingClause, orderBy, limit, outputFormat = 'text' } = args;
 
   try {
     // Validate GROUP BY contains all non-aggregate fields
@@ -226,25 +244,33 @@ export async function handleAggregateQuery(conn: any, args: AggregateQueryArgs)
     if (limit) soql += ` LIMIT ${limit}`;
 
     const result = await conn.query(soql);
+
+    if (outputFormat !== 'text') {
+      const columns = selectFields.map(field => getGroupValue({}, field).displayName);
+      const rows = result.records.map((record: any) => selectFields.map(field => getGroupValue(record, field).value));
+
+      if (outputFormat === 'json') {
+        return structuredResponse({
+          totalSize: result.records.length,
+          groups: rows.map((row: unknown[]) => Object.fromEntries(columns.map((column, i) => [column, row[i]])))
+        });
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: outputFormat === 'csv'
+            ? toCsv(columns, rows)
+            : `Aggregate query returned ${result.records.length} grouped results:\n\n${toMarkdownTable(columns, rows)}`
+        }],
+        isError: false,
+      };
+    }
     
     // Format the output
     const formattedRecords = result.records.map((record: any, index: number) => {
       const recordStr = selectFields.map(field => {
-        const baseField = extractBaseField(field);
-        const fieldParts = field.trim().split(/\s+/);
-        const displayName = fieldParts.length > 1 ? fieldParts[fieldParts.length - 1] : baseField;
-        
-        // Handle nested fields in results
-        if (baseField.includes('.')) {
-          const parts = baseField.split('.');
-          let value = record;
-          for (const part of parts) {
-            value = value?.[part];
-          }
-          return `    ${displayName}: ${value !== null && value !== undefined ? value : 'null'}`;
-        }
-        
-        const value = record[baseField] || record[displayName];
+        const { displayName, value } = getGroupValue(record, field);
         return `    ${displayName}: ${value !== null && value !== undefined ? value : 'null'}`;
       }).join('\n');
       return `Group ${index + 1}:\n${recordStr}`;
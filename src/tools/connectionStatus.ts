@@ -0,0 +1,52 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { getConnectionState, ConnectionState } from "../utils/connectionManager.js";
+import { listOrgNames, loadOrgProfiles } from "../utils/orgProfiles.js";
+
+export const CONNECTION_STATUS: Tool = {
+  name: "salesforce_connection_status",
+  description: "Show the configured org profiles and the state of each cached Salesforce session: authentication method, instance URL, when it was established, last used and how many times it has been refreshed after expiring. Does not log in; pass org to report on a single org.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+    required: []
+  }
+};
+
+function formatDate(date?: Date): string {
+  return date ? date.toLocaleString() : 'never';
+}
+
+function formatState(state: ConnectionState, isDefault: boolean): string {
+  let text = `**Org:** ${state.orgName}${isDefault ? ' (default)' : ''}\n`;
+  text += `- **Status:** ${state.status}\n`;
+  text += `- **Connection Type:** ${state.connectionType}\n`;
+  if (state.instanceUrl) text += `- **Instance URL:** ${state.instanceUrl}\n`;
+  if (state.apiVersion) text += `- **API Version:** ${state.apiVersion}\n`;
+  if (state.organizationId) text += `- **Organization ID:** ${state.organizationId}\n`;
+  if (state.userId) text += `- **User ID:** ${state.userId}\n`;
+  text += `- **Connected At:** ${formatDate(state.connectedAt)}\n`;
+  text += `- **Last Used:** ${formatDate(state.lastUsedAt)}\n`;
+  text += `- **Session Refreshes:** ${state.refreshCount}${state.lastRefreshedAt ? ` (last at ${formatDate(state.lastRefreshedAt)})` : ''}\n`;
+  if (state.lastError) text += `- **Last Error:** ${state.lastError}\n`;
+  return text;
+}
+
+/**
+ * Handles reporting the state of the shared Salesforce connections without connecting
+ * @param orgName Named org profile to report on; every configured org when omitted
+ * @returns Tool response with connection details per org
+ */
+export async function handleConnectionStatus(orgName?: string) {
+  const { defaultOrg } = loadOrgProfiles();
+  const responseText = (orgName ? [orgName] : listOrgNames())
+    .map(orgName => formatState(getConnectionState(orgName), orgName === defaultOrg))
+    .join('\n');
+
+  return {
+    content: [{
+      type: "text",
+      text: responseText
+    }],
+    isError: false,
+  };
+}
@@ -1,40 +1,229 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { SalesforceField, SalesforceDescribeResponse } from "../types/salesforce.js";
+import { describeObject } from "../utils/describeCache.js";
 
 export const DESCRIBE_OBJECT: Tool = {
   name: "salesforce_describe_object",
-  description: "Get detailed schema metadata including all fields, relationships, and field properties of any Salesforce object. Examples: 'Account' shows all Account fields including custom fields; 'Case' shows all Case fields including relationships to Account, Contact etc.",
+  description: `Get detailed schema metadata including all fields, relationships, and field properties of any Salesforce object. Examples: 'Account' shows all Account fields including custom fields; 'Case' shows all Case fields including relationships to Account, Contact etc.
+
+For each field the output includes type, required/unique/external ID flags, the running user's access (read, create, edit),
+relationship names, formulas, defaults, help text, picklist values and the controlling field of dependent picklists.
+The object's child relationships and record types are listed after the fields.
+
+Large objects can be narrowed down:
+1. Custom fields only: customOnly: true
+2. By type: fieldTypes: ["reference", "picklist"]
+3. By name or label: namePattern: "billing*" (* matches any characters, otherwise matched as a substring)
+4. Writable fields: createableOnly: true or updateableOnly: true
+5. Only some sections: sections: ["fields"] (default: fields, childRelationships, recordTypes)`,
   inputSchema: {
     type: "object",
     properties: {
       objectName: {
         type: "string",
         description: "API name of the object (e.g., 'Account', 'Contact', 'Custom_Object__c')"
+      },
+      customOnly: {
+        type: "boolean",
+        description: "Only list custom fields",
+        optional: true
+      },
+      fieldTypes: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only list fields of these types (e.g., 'string', 'reference', 'picklist', 'currency')",
+        optional: true
+      },
+      namePattern: {
+        type: "string",
+        description: "Only list fields whose API name or label matches (case-insensitive, * as wildcard)",
+        optional: true
+      },
+      createableOnly: {
+        type: "boolean",
+        description: "Only list fields the running user can set when creating records",
+        optional: true
+      },
+      updateableOnly: {
+        type: "boolean",
+        description: "Only list fields the running user can edit on existing records",
+        optional: true
+      },
+      sections: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: ["fields", "childRelationships", "recordTypes"]
+        },
+        description: "Parts of the describe to include (default: all)",
+        optional: true
       }
     },
     required: ["objectName"]
   }
 };
 
-export async function handleDescribeObject(conn: any, objectName: string) {
-  const describe = await conn.describe(objectName) as SalesforceDescribeResponse;
-  
-  // Format the output
-  const formattedDescription = `
-Object: ${describe.name} (${describe.label})${describe.custom ? ' (Custom Object)' : ''}
-Fields:
-${describe.fields.map((field: SalesforceField) => `  - ${field.name} (${field.label})
-    Type: ${field.type}${field.length ? `, Length: ${field.length}` : ''}
-    Required: ${!field.nillable}
-    ${field.referenceTo && field.referenceTo.length > 0 ? `References: ${field.referenceTo.join(', ')}` : ''}
-    ${field.picklistValues && field.picklistValues.length > 0 ? `Picklist Values: ${field.picklistValues.map((v: { value: string }) => v.value).join(', ')}` : ''}`
-  ).join('\n')}`;
+export type DescribeSection = 'fields' | 'childRelationships' | 'recordTypes';
+
+export interface DescribeObjectArgs {
+  objectName: string;
+  customOnly?: boolean;
+  fieldTypes?: string[];
+  namePattern?: string;
+  createableOnly?: boolean;
+  updateableOnly?: boolean;
+  sections?: DescribeSection[];
+}
+
+// Picklists with more values than this are shortened in the output
+const MAX_PICKLIST_VALUES = 50;
+
+// Helper function to turn a name pattern into a case-insensitive matcher
+function toNameMatcher(pattern: string): (text: string) => boolean {
+  if (!pattern.includes('*')) {
+    const lower = pattern.toLowerCase();
+    return text => text.toLowerCase().includes(lower);
+  }
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  const regex = new RegExp(`^${escaped}$`, 'i');
+  return text => regex.test(text);
+}
+
+// Helper function to apply the field filters of the request
+function filterFields(fields: SalesforceField[], args: DescribeObjectArgs): SalesforceField[] {
+  const types = args.fieldTypes?.map(type => type.toLowerCase());
+  const matchesName = args.namePattern ? toNameMatcher(args.namePattern) : undefined;
+
+  return fields.filter(field =>
+    (!args.customOnly || field.custom) &&
+    (!types || types.length === 0 || types.includes(field.type.toLowerCase())) &&
+    (!matchesName || matchesName(field.name) || matchesName(field.label)) &&
+    (!args.createableOnly || field.createable) &&
+    (!args.updateableOnly || field.updateable)
+  );
+}
+
+// Helper function to describe what the running user can do with a field
+function formatAccess(field: SalesforceField): string {
+  const access = ['read'];
+  if (field.createable) access.push('create');
+  if (field.updateable) access.push('edit');
+  return access.join(', ');
+}
+
+// Helper function to format one field with the properties it actually has
+function formatField(field: SalesforceField): string {
+  const flags = [
+    !field.nillable && field.type !== 'boolean' ? 'Required' : '',
+    field.custom ? 'Custom' : '',
+    field.externalId ? 'External ID' : '',
+    field.unique ? 'Unique' : '',
+    field.nameField ? 'Name Field' : '',
+    field.calculated ? 'Formula' : ''
+  ].filter(Boolean);
+
+  const lines = [
+    `  - ${field.name} (${field.label})`,
+    `    Type: ${field.type}${field.length ? `, Length: ${field.length}` : ''}${flags.length > 0 ? ` | ${flags.join(', ')}` : ''}`,
+    `    Access: ${formatAccess(field)}`
+  ];
+
+  if (field.referenceTo && field.referenceTo.length > 0) {
+    lines.push(`    References: ${field.referenceTo.join(', ')}${field.relationshipName ? ` (relationship: ${field.relationshipName})` : ''}`);
+  }
+  if (field.calculatedFormula) {
+    lines.push(`    Formula: ${field.calculatedFormula}`);
+  }
+  if (field.defaultValueFormula) {
+    lines.push(`    Default: ${field.defaultValueFormula}`);
+  } else if (field.defaultValue !== null && field.defaultValue !== undefined && field.type !== 'boolean') {
+    lines.push(`    Default: ${field.defaultValue}`);
+  }
+  if (field.inlineHelpText) {
+    lines.push(`    Help Text: ${field.inlineHelpText}`);
+  }
+  if (field.dependentPicklist && field.controllerName) {
+    lines.push(`    Controlled By: ${field.controllerName}`);
+  }
+  if (field.picklistValues && field.picklistValues.length > 0) {
+    const values = field.picklistValues.filter(entry => entry.active !== false);
+    const shown = values.slice(0, MAX_PICKLIST_VALUES)
+      .map(entry => `${entry.value}${entry.defaultValue ? ' (default)' : ''}`);
+    const more = values.length > MAX_PICKLIST_VALUES ? `, ... ${values.length - MAX_PICKLIST_VALUES} more` : '';
+    lines.push(`    Picklist Values${field.restrictedPicklist ? ' (restricted)' : ''}: ${shown.join(', ')}${more}`);
+  }
+
+  return lines.join('\n');
+}
+
+// Helper function to list the object's child relationships
+function formatChildRelationships(describe: SalesforceDescribeResponse): string {
+  const relationships = describe.childRelationships || [];
+  if (relationships.length === 0) return 'Child Relationships: none';
+  return `Child Relationships (${relationships.length}):\n` + relationships.map(relationship =>
+    `  - ${relationship.relationshipName || '(no relationship name)'}: ${relationship.childSObject}.${relationship.field}` +
+    `${relationship.cascadeDelete ? ' (cascade delete)' : ''}`
+  ).join('\n');
+}
+
+// Helper function to list the object's record types
+function formatRecordTypes(describe: SalesforceDescribeResponse): string {
+  const recordTypes = (describe.recordTypeInfos || []).filter(recordType => !recordType.master);
+  if (recordTypes.length === 0) return 'Record Types: none';
+  return `Record Types (${recordTypes.length}):\n` + recordTypes.map(recordType => {
+    const flags = [
+      recordType.active ? '' : 'inactive',
+      recordType.available ? '' : 'not available to running user',
+      recordType.defaultRecordTypeMapping ? 'default' : ''
+    ].filter(Boolean);
+    return `  - ${recordType.name} (${recordType.developerName}), Id: ${recordType.recordTypeId}${flags.length > 0 ? ` [${flags.join(', ')}]` : ''}`;
+  }).join('\n');
+}
+
+/**
+ * Describes an object's fields, child relationships and record types, optionally filtered
+ * @param conn Connected jsforce Connection
+ * @param args Object name, field filters and sections to include
+ * @returns Tool response with the formatted describe
+ */
+export async function handleDescribeObject(conn: any, args: DescribeObjectArgs) {
+  const describe = await describeObject(conn, args.objectName);
+  const sections = args.sections && args.sections.length > 0
+    ? args.sections
+    : ['fields', 'childRelationships', 'recordTypes'];
+
+  const objectAccess = [
+    describe.queryable ? 'query' : '',
+    describe.createable ? 'create' : '',
+    describe.updateable ? 'edit' : '',
+    describe.deletable ? 'delete' : ''
+  ].filter(Boolean);
+
+  const parts = [
+    `Object: ${describe.name} (${describe.label})${describe.custom ? ' (Custom Object)' : ''}` +
+    `${describe.keyPrefix ? `\nKey Prefix: ${describe.keyPrefix}` : ''}` +
+    `\nRunning User Access: ${objectAccess.join(', ') || 'none'}`
+  ];
+
+  if (sections.includes('fields')) {
+    const fields = filterFields(describe.fields, args);
+    const isFiltered = fields.length !== describe.fields.length;
+    // Fields the running user cannot read are left out of the describe by Salesforce
+    parts.push(`Fields (${isFiltered ? `${fields.length} of ${describe.fields.length} match the filters` : fields.length}):\n` +
+      (fields.length > 0 ? fields.map(formatField).join('\n') : '  No fields match the filters'));
+  }
+  if (sections.includes('childRelationships')) {
+    parts.push(formatChildRelationships(describe));
+  }
+  if (sections.includes('recordTypes')) {
+    parts.push(formatRecordTypes(describe));
+  }
 
   return {
     content: [{
       type: "text",
-      text: formattedDescription
+      text: parts.join('\n\n')
     }],
     isError: false,
   };
-}
\ No newline at end of file
+}
@@ -1,5 +1,15 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { DMLResult, SalesforceError } from "../types/salesforce.js";
+import { DMLResult, MergeResult, SalesforceError, SalesforceField } from "../types/salesforce.js";
+import { getRuntimeConfig } from "../utils/config.js";
+import { runBulkIngestJob } from "../utils/bulkApi.js";
+import { fetchRecordsByKey, findDeletedRecordIds, normalizeRecordKey, undeleteRecords, emptyRecycleBin } from "../utils/records.js";
+import { issueConfirmationToken, reserveConfirmationToken, settleConfirmationToken } from "../utils/dmlConfirmation.js";
+import { isInvalidSessionError } from "../utils/connectionManager.js";
+import { addJournalEntry, JournalChange } from "../utils/dmlJournal.js";
+import { logger } from "../utils/logger.js";
+import { describeObject } from "../utils/describeCache.js";
+import { validateDMLRecords, formatRecordIssues, RecordIssue } from "../utils/dmlValidation.js";
+import { CompositeNode, validateCompositeNodes, runCompositeGraph, withReferencePlaceholders } from "../utils/compositeGraph.js";
 
 export const DML_RECORDS: Tool = {
   name: "salesforce_dml_records",
@@ -8,61 +18,782 @@ export const DML_RECORDS: Tool = {
   - update: Modify existing records (requires Id)
   - delete: Remove records (requires Id)
   - upsert: Insert or update based on external ID field
-  Examples: Insert new Accounts, Update Case status, Delete old records, Upsert based on custom external ID`,
+  - composite: Run dependent operations on several objects as one transaction (Composite graph API)
+  - merge: Merge up to two duplicates into a master record (Account, Contact, Lead, Case, Individual)
+  - undelete: Restore records from the Recycle Bin (requires Id)
+  - emptyRecycleBin: Permanently remove deleted records from the Recycle Bin (requires Id; cannot be undone, needs a dry run first)
+  Examples: Insert new Accounts, Update Case status, Delete old records, Upsert based on custom external ID
+
+  All-or-none: set allOrNone to true so that a failure on any record rolls back the whole call (up to 200 records).
+  Without it, valid records are saved even when others fail.
+
+  Composite: each entry in records is a node { referenceId, objectName?, operation?, externalIdField?, fields }.
+  operation defaults to insert and objectName to the top-level objectName. Later nodes can use the Id of an earlier
+  node with "@{referenceId.id}", e.g. an Account node "acct" followed by Contact nodes with fields.AccountId "@{acct.id}".
+  The graph is committed or rolled back as a whole, and the response names the node that failed.
+
+  Merge: each entry in records is { masterRecordId, duplicateIds, fieldWinners? }. Duplicates are deleted and their
+  related records re-parented to the master. fieldWinners maps a field to the duplicate Id whose value should be kept,
+  e.g. { "Phone": "001...", "Website": "001..." }; other fields keep the master's values.
+
+  Large batches run as a Bulk API 2.0 job when there are more records than the configured bulk threshold
+  (or when useBulk is true); the job is polled until it finishes and each record is reported as successful, failed or unprocessed
+
+  Validation: insert, update and upsert records, and composite nodes, are checked against their object's schema before anything is sent
+  (unknown fields, read-only fields, value types, picklist values, required fields). All problems are listed per record
+  and the call is rejected if any would fail; set skipValidation to true to send the records anyway.
+
+  Dry run: set dryRun to true to preview without writing. The current values of the targeted records are fetched
+  and shown next to the new values, fields that cannot be written are flagged, and a confirmationToken is returned.
+  Repeat the call with the same arguments plus that confirmationToken (and without dryRun) to commit exactly what was previewed.
+  update, delete, upsert and emptyRecycleBin are only committed with a confirmationToken, so always run them as a dry run first.
+
+  Undo: prior values of updated records and full copies of deleted records are saved to an undo journal before writing.
+  Use salesforce_dml_journal to list operations and revert one.`,
   inputSchema: {
     type: "object",
     properties: {
       operation: {
         type: "string",
-        enum: ["insert", "update", "delete", "upsert"],
+        enum: ["insert", "update", "delete", "upsert", "composite", "merge", "undelete", "emptyRecycleBin"],
         description: "Type of DML operation to perform"
       },
       objectName: {
         type: "string",
-        description: "API name of the object"
+        description: "API name of the object (the default object for composite nodes)"
       },
       records: {
         type: "array",
         items: { type: "object" },
-        description: "Array of records to process"
+        description: "Array of records to process, nodes for the composite operation, or merge requests for merge"
       },
       externalIdField: {
         type: "string",
         description: "External ID field name for upsert operations",
         optional: true
+      },
+      allOrNone: {
+        type: "boolean",
+        description: "Roll back every record if any record fails (REST API only, at most 200 records)",
+        optional: true
+      },
+      useBulk: {
+        type: "boolean",
+        description: "true forces a Bulk API 2.0 job, false forces the REST API; by default Bulk API is used above the configured record threshold",
+        optional: true
+      },
+      skipValidation: {
+        type: "boolean",
+        description: "Send the records without checking them against the object's schema first",
+        optional: true
+      },
+      dryRun: {
+        type: "boolean",
+        description: "Preview the operation as a before/after diff per record without writing anything",
+        optional: true
+      },
+      confirmationToken: {
+        type: "string",
+        description: "Token returned by a dry run; required to commit update, delete, upsert and emptyRecycleBin, which only run if the arguments match the preview",
+        optional: true
       }
     },
     required: ["operation", "objectName", "records"]
   }
 };
 
+type RecordOperation = 'insert' | 'update' | 'delete' | 'upsert';
+
 export interface DMLArgs {
-  operation: 'insert' | 'update' | 'delete' | 'upsert';
+  operation: RecordOperation | 'composite' | 'merge' | 'undelete' | 'emptyRecycleBin';
   objectName: string;
   records: Record<string, any>[];
   externalIdField?: string;
+  allOrNone?: boolean;
+  useBulk?: boolean;
+  skipValidation?: boolean;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+// Only the first records of a large preview are listed in full
+const MAX_PREVIEW_RECORDS = 50;
+
+// Helper function to render a field value in the preview
+function formatPreviewValue(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+// Helper function to compare a submitted value with the stored one, ignoring number/string differences
+function isSameValue(current: unknown, next: unknown): boolean {
+  if ((current === null || current === undefined) && (next === null || next === undefined || next === '')) return true;
+  return String(current) === String(next);
+}
+
+// Helper function to build the dry-run preview of a DML call
+async function previewDML(conn: any, args: DMLArgs, issues: RecordIssue[]) {
+  const { operation, objectName, records, externalIdField } = args;
+  const describe = await describeObject(conn, objectName);
+  const fieldsByName = new Map<string, SalesforceField>(describe.fields.map(field => [field.name.toLowerCase(), field]));
+  const nameField = describe.fields.find(field => field.nameField)?.name;
+
+  const submittedFields = [...new Set(records.flatMap(record => Object.keys(record)))]
+    .filter(field => field !== 'attributes' && field !== 'Id');
+  const knownFields = submittedFields.filter(field => fieldsByName.has(field.toLowerCase()));
+  const unknownFields = submittedFields.filter(field => !fieldsByName.has(field.toLowerCase()));
+
+  const keyField = operation === 'upsert' ? externalIdField! : 'Id';
+  const current = operation === 'insert'
+    ? new Map<string, any>()
+    : await fetchRecordsByKey(
+        conn, objectName, keyField, records.map(record => record[keyField]),
+        operation === 'delete' ? (nameField ? [nameField] : []) : knownFields
+      );
+
+  let notFound = 0;
+  let blockedFields = 0;
+  const lines: string[] = [];
+
+  records.forEach((record, index) => {
+    const key = record[keyField];
+    const existing = key !== undefined && key !== null ? current.get(normalizeRecordKey(keyField, key)) : undefined;
+    const willInsert = operation === 'insert' || operation === 'upsert' && !existing;
+    const recordLines: string[] = [];
+
+    if ((operation === 'update' || operation === 'delete') && !existing) {
+      notFound++;
+      recordLines.push(key ? `  ! No ${objectName} record with Id ${key} was found` : '  ! Missing Id');
+    } else if (operation === 'delete') {
+      recordLines.push(`  Will be deleted${nameField ? ` (${nameField}: ${formatPreviewValue(existing[nameField])})` : ''}`);
+    } else {
+      for (const field of submittedFields.filter(field => field in record)) {
+        const describeField = fieldsByName.get(field.toLowerCase());
+        const next = record[field];
+        if (!describeField) {
+          recordLines.push(`  ! ${field}: not a field on ${objectName}`);
+          continue;
+        }
+
+        const writable = willInsert ? describeField.createable : describeField.updateable;
+        const flag = writable ? '' : ` [not ${willInsert ? 'createable' : 'updateable'}]`;
+        if (!writable) blockedFields++;
+
+        if (willInsert) {
+          recordLines.push(`  ${field}: ${formatPreviewValue(next)}${flag}`);
+        } else if (!isSameValue(existing[describeField.name], next)) {
+          recordLines.push(`  ${field}: ${formatPreviewValue(existing[describeField.name])} -> ${formatPreviewValue(next)}${flag}`);
+        } else {
+          recordLines.push(`  ${field}: unchanged (${formatPreviewValue(next)})${flag}`);
+        }
+      }
+    }
+
+    if (index < MAX_PREVIEW_RECORDS) {
+      const action = operation === 'upsert' ? (existing ? 'update' : 'insert') : operation;
+      const label = existing?.Id ? ` (${existing.Id})` : '';
+      lines.push(`Record ${index + 1}${label} - ${action}:`, ...recordLines);
+    }
+  });
+
+  const token = issueConfirmationToken(conn.instanceUrl, { operation, objectName, records, externalIdField });
+
+  let responseText = `DRY RUN - ${operation.toUpperCase()} of ${records.length} ${objectName} records. Nothing was written.\n`;
+  if (operation === 'upsert') {
+    const matched = records.filter(record => current.has(normalizeRecordKey(keyField, record[keyField]))).length;
+    responseText += `- ${matched} match existing records on ${keyField} and will be updated\n`;
+    responseText += `- ${records.length - matched} will be inserted\n`;
+  }
+  if (notFound > 0) responseText += `- Targeted records not found (will fail): ${notFound}\n`;
+  if (unknownFields.length > 0) responseText += `- Unknown fields: ${unknownFields.join(', ')}\n`;
+  if (blockedFields > 0) responseText += `- Values for fields that cannot be written (will fail): ${blockedFields}\n`;
+  if (issues.length > 0) {
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+    responseText += `- Schema validation: ${errorCount} errors, ${issues.length - errorCount} warnings` +
+      `${errorCount > 0 ? ' (the commit will be rejected until they are fixed)' : ''}\n`;
+    responseText += `\nValidation:\n${formatRecordIssues(issues)}\n`;
+  }
+  responseText += `\n${lines.join('\n')}\n`;
+  if (records.length > MAX_PREVIEW_RECORDS) {
+    responseText += `\n... ${records.length - MAX_PREVIEW_RECORDS} more records not shown\n`;
+  }
+  responseText += `\nTo commit, call salesforce_dml_records again with the same operation, objectName, records` +
+    `${externalIdField ? ' and externalIdField' : ''} plus confirmationToken: "${token}" (valid for 15 minutes, single use).`;
+
+  return {
+    content: [{
+      type: "text",
+      text: responseText
+    }],
+    isError: false,
+  };
+}
+
+// Helper function to read the values an operation is about to overwrite, keyed like the input records
+async function captureSnapshot(conn: any, args: DMLArgs): Promise<Map<string, any>> {
+  const { operation, objectName, records, externalIdField } = args;
+  if (operation === 'insert') return new Map();
+
+  const describe = await describeObject(conn, objectName);
+  const keyField = operation === 'upsert' ? externalIdField! : 'Id';
+  let fields: string[];
+  if (operation === 'delete') {
+    // Only createable fields can be written back if the record has to be re-inserted
+    fields = describe.fields.filter(field => field.createable).map(field => field.name);
+  } else {
+    const describedNames = new Map(describe.fields.map(field => [field.name.toLowerCase(), field.name]));
+    fields = [...new Set(records.flatMap(record => Object.keys(record)))]
+      .map(field => describedNames.get(field.toLowerCase()))
+      .filter((field): field is string => field !== undefined && field !== 'Id');
+  }
+  return fetchRecordsByKey(conn, objectName, keyField, records.map(record => record[keyField]), fields);
+}
+
+// Helper function to journal the records an operation changed so it can be reverted.
+// Returns the entry id and the record numbers that changed but have no snapshot to revert to
+function recordJournalEntry(
+  conn: any,
+  args: DMLArgs,
+  snapshot: Map<string, any>,
+  outcomes: { success: boolean; id?: string; created?: boolean }[]
+): { entryId?: string; unsnapshotted: string[] } {
+  const { operation, objectName, records, externalIdField } = args;
+  const keyField = operation === 'upsert' ? externalIdField! : 'Id';
+  const changes: JournalChange[] = [];
+  const unsnapshotted: string[] = [];
+
+  outcomes.forEach((outcome, index) => {
+    if (!outcome.success) return;
+    // Upserts report whether they inserted; a missing snapshot alone does not mean the record is new
+    if (operation === 'insert' || (operation === 'upsert' && outcome.created === true)) {
+      if (outcome.id) changes.push({ id: outcome.id, action: 'created' });
+      return;
+    }
+
+    const existing = snapshot.get(normalizeRecordKey(keyField, records[index][keyField]));
+    if (!existing) {
+      unsnapshotted.push(`${index + 1}${outcome.id ? ` (${outcome.id})` : ''}`);
+      return;
+    }
+
+    const { attributes, Id, ...before } = existing;
+    if (operation !== 'delete') delete before[keyField];
+    changes.push({ id: Id, action: operation === 'delete' ? 'deleted' : 'updated', before });
+  });
+
+  if (changes.length === 0) return { unsnapshotted };
+  return { entryId: addJournalEntry({ org: conn.instanceUrl, operation, objectName, changes }).id, unsnapshotted };
+}
+
+// Helper function to describe how to undo an operation at the end of its response
+function formatJournalNote(journal: { entryId?: string; unsnapshotted: string[] } | undefined, snapshotError: string | undefined): string {
+  if (snapshotError || !journal) return `Undo journal unavailable for this operation: ${snapshotError}`;
+  let note = journal.entryId ? `Undo journal entry: ${journal.entryId} (revert with salesforce_dml_journal)` : '';
+  if (journal.unsnapshotted.length > 0) {
+    note += `${note ? '\n' : ''}No previous values were saved for records ${journal.unsnapshotted.join(', ')}; ` +
+      `reverting the journal entry will not undo their changes.`;
+  }
+  return note;
+}
+
+// Helper function to run the operation as a Bulk API 2.0 job and report every record's outcome
+async function handleBulkDML(conn: any, args: DMLArgs & { operation: RecordOperation }, snapshot: Map<string, any>, snapshotError?: string) {
+  const { operation, objectName, records, externalIdField } = args;
+  const job = await runBulkIngestJob(conn, objectName, operation, records, externalIdField);
+  const journal = snapshotError ? undefined : recordJournalEntry(conn, args, snapshot,
+    job.results.map(r => ({ success: r.state === 'successful', id: r.id, created: r.created })));
+
+  const failed = job.results.filter(r => r.state === 'failed');
+  const unprocessed = job.results.filter(r => r.state === 'unprocessed');
+  const successCount = job.results.length - failed.length - unprocessed.length;
+
+  let responseText = `${operation.toUpperCase()} operation ran as Bulk API 2.0 job ${job.jobId} (final state: ${job.state}).\n`;
+  if (job.errorMessage) {
+    responseText += `Job error: ${job.errorMessage}\n`;
+  }
+  responseText += `Processed ${job.results.length} records:\n`;
+  responseText += `- Successful: ${successCount}\n`;
+  responseText += `- Failed: ${failed.length}\n`;
+  responseText += `- Unprocessed: ${unprocessed.length}\n\n`;
+
+  if (failed.length > 0) {
+    responseText += 'Errors:\n';
+    failed.forEach(r => {
+      responseText += `Record ${r.index + 1}${r.id ? ` (${r.id})` : ''}:\n  - ${r.error || 'Unknown error'}\n`;
+    });
+    responseText += '\n';
+  }
+
+  if (unprocessed.length > 0) {
+    responseText += `Unprocessed records (not attempted before the job ended): ${unprocessed.map(r => r.index + 1).join(', ')}\n`;
+  }
+  responseText += formatJournalNote(journal, snapshotError);
+
+  return {
+    content: [{
+      type: "text",
+      text: responseText.trimEnd()
+    }],
+    isError: job.state !== 'JobComplete',
+  };
+}
+
+// sObject Collections requests, and so all-or-none transactions, are limited to 200 records
+const MAX_COLLECTION_RECORDS = 200;
+const ROLLED_BACK_STATUS = 'ALL_OR_NONE_OPERATION_ROLLED_BACK';
+
+// Helper function to format the errors of one record, indented under its "Record N:" line
+function formatRecordErrors(errors: SalesforceError[] | SalesforceError): string {
+  let text = '';
+  if (Array.isArray(errors)) {
+    errors.forEach((error: SalesforceError) => {
+      text += `  - ${error.message}`;
+      if (error.statusCode) {
+        text += ` [${error.statusCode}]`;
+      }
+      if (error.fields && error.fields.length > 0) {
+        text += `\n    Fields: ${error.fields.join(', ')}`;
+      }
+      text += '\n';
+    });
+  } else {
+    // Single error object
+    const error = errors;
+    text += `  - ${error.message}`;
+    if (error.statusCode) {
+      text += ` [${error.statusCode}]`;
+    }
+    if (error.fields) {
+      const fields = Array.isArray(error.fields) ? error.fields.join(', ') : error.fields;
+      text += `\n    Fields: ${fields}`;
+    }
+    text += '\n';
+  }
+  return text;
+}
+
+// Helper function to check whether a record only failed because another record in an all-or-none call failed
+function isRolledBackOnly(result: DMLResult): boolean {
+  const errors = Array.isArray(result.errors) ? result.errors : result.errors ? [result.errors] : [];
+  return errors.length > 0 && errors.every(error => error.statusCode === ROLLED_BACK_STATUS);
+}
+
+// jsforce upserts record by record, so all-or-none upserts go through the sObject Collections endpoint
+async function upsertAllOrNone(conn: any, objectName: string, records: Record<string, any>[], externalIdField: string): Promise<DMLResult[]> {
+  return conn.request({
+    method: 'PATCH',
+    url: `/services/data/v${conn.version}/composite/sobjects/${objectName}/${externalIdField}`,
+    body: JSON.stringify({
+      allOrNone: true,
+      records: records.map(({ attributes, ...record }) => ({ attributes: { type: objectName }, ...record }))
+    }),
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Helper function to check each composite node's fields against the describe of its own object
+async function validateCompositeRecords(conn: any, nodes: CompositeNode[]): Promise<RecordIssue[]> {
+  const issues: RecordIssue[] = [];
+  for (const [index, node] of nodes.entries()) {
+    if (node.operation === 'delete') continue;
+    const describe = await describeObject(conn, node.objectName);
+    validateDMLRecords(describe, node.operation, [withReferencePlaceholders(node.fields)], node.externalIdField)
+      .forEach(issue => issues.push({ ...issue, index }));
+  }
+  return issues;
+}
+
+// Helper function to run the composite operation as one graph and report each node's outcome
+async function handleCompositeDML(conn: any, args: DMLArgs) {
+  const nodes: CompositeNode[] = args.records.map(record => ({
+    referenceId: record.referenceId,
+    objectName: record.objectName || args.objectName,
+    operation: record.operation || 'insert',
+    externalIdField: record.externalIdField || args.externalIdField,
+    fields: record.fields || {}
+  }));
+
+  const validation = validateCompositeNodes(nodes);
+  if (!validation.isValid) {
+    return {
+      content: [{
+        type: "text",
+        text: validation.error!
+      }],
+      isError: true,
+    };
+  }
+
+  const issues = args.skipValidation ? [] : await validateCompositeRecords(conn, nodes);
+  const validationErrors = issues.filter(issue => issue.severity === 'error');
+  if (validationErrors.length > 0) {
+    const recordCount = new Set(validationErrors.map(issue => issue.index)).size;
+    return {
+      content: [{
+        type: "text",
+        text: `COMPOSITE rejected before sending: ${validationErrors.length} errors in ${recordCount} of ${nodes.length} records. ` +
+          `Nothing was written.\n\n${formatRecordIssues(issues)}\n\nFix the records, or set skipValidation to true to send them anyway.`
+      }],
+      isError: true,
+    };
+  }
+
+  const graph = await runCompositeGraph(conn, nodes);
+  const failed = graph.results.filter(result => !result.success && !result.rolledBack);
+  const rolledBack = graph.results.filter(result => result.rolledBack);
+
+  let responseText = graph.isSuccessful
+    ? `COMPOSITE operation completed. All ${nodes.length} records were committed in one transaction.\n\n`
+    : `COMPOSITE operation failed. Nothing was saved: the transaction was rolled back.\n\n`;
+
+  responseText += 'Records:\n';
+  graph.results.forEach((result, index) => {
+    const { node } = result;
+    const label = `Record ${index + 1} "${node.referenceId}" (${node.operation} ${node.objectName})`;
+    if (result.success) {
+      responseText += `${label}: ${result.id ? `Id ${result.id}` : 'success'}\n`;
+    } else if (result.rolledBack) {
+      responseText += `${label}: rolled back because another record failed\n`;
+    } else {
+      responseText += `${label}: FAILED\n${formatRecordErrors(result.errors)}`;
+    }
+  });
+
+  if (!graph.isSuccessful) {
+    responseText += `\nFailed: ${failed.map(result => result.node.referenceId).join(', ') || 'unknown'}; rolled back: ${rolledBack.length}\n`;
+  }
+  responseText += 'Composite operations are not recorded in the undo journal.';
+  if (issues.length > 0) {
+    responseText += `\n\nValidation warnings:\n${formatRecordIssues(issues)}`;
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: responseText
+    }],
+    isError: !graph.isSuccessful,
+  };
+}
+
+// Objects the merge call supports
+const MERGEABLE_OBJECTS = ['Account', 'Contact', 'Lead', 'Case', 'Individual'];
+
+// Helper function to merge duplicates into their master records, copying the winning field values first
+async function mergeRecords(conn: any, objectName: string, requests: Record<string, any>[]): Promise<MergeResult[]> {
+  const mergeable = MERGEABLE_OBJECTS.find(name => name.toLowerCase() === objectName.toLowerCase());
+  if (!mergeable) {
+    throw new Error(`merge is only supported for ${MERGEABLE_OBJECTS.join(', ')}`);
+  }
+
+  requests.forEach((request, index) => {
+    const duplicateIds: unknown = request.duplicateIds;
+    if (!request.masterRecordId || !Array.isArray(duplicateIds) || duplicateIds.length < 1 || duplicateIds.length > 2) {
+      throw new Error(`Merge request ${index + 1} needs a masterRecordId and one or two duplicateIds`);
+    }
+    for (const [field, winnerId] of Object.entries(request.fieldWinners || {})) {
+      if (!duplicateIds.some(id => normalizeRecordKey('Id', id) === normalizeRecordKey('Id', winnerId))) {
+        throw new Error(`Merge request ${index + 1}: fieldWinners.${field} must be one of the duplicateIds`);
+      }
+    }
+  });
+
+  // Field names as the API spells them, so they match the queried records and the merge call
+  const describedNames = new Map<string, string>();
+  const requestedFields = [...new Set(requests.flatMap(request => Object.keys(request.fieldWinners || {})))];
+  if (requestedFields.length > 0) {
+    const describe = await describeObject(conn, mergeable);
+    describe.fields.forEach(field => describedNames.set(field.name.toLowerCase(), field.name));
+    const unknown = requestedFields.filter(field => !describedNames.has(field.toLowerCase()));
+    if (unknown.length > 0) {
+      throw new Error(`fieldWinners names fields that do not exist on ${mergeable}: ${unknown.join(', ')}`);
+    }
+  }
+
+  // Read the winning values from the duplicates so they can be written onto the master
+  const winnerFields = [...new Set(requestedFields.map(field => describedNames.get(field.toLowerCase())!))];
+  const winnerIds = requests.flatMap(request => Object.values(request.fieldWinners || {}));
+  const duplicates = winnerFields.length > 0
+    ? await fetchRecordsByKey(conn, mergeable, 'Id', winnerIds, winnerFields)
+    : new Map<string, any>();
+
+  const mergeRequests = requests.map((request, index) => {
+    const masterRecord: Record<string, unknown> = {
+      '@xmlns:ns1': 'urn:sobject.partner.soap.sforce.com',
+      'ns1:type': mergeable,
+      'ns1:Id': request.masterRecordId
+    };
+    const fieldsToNull: string[] = [];
+    for (const [requestedField, winnerId] of Object.entries(request.fieldWinners || {})) {
+      const field = describedNames.get(requestedField.toLowerCase())!;
+      const winner = duplicates.get(normalizeRecordKey('Id', winnerId));
+      // Clearing the master's value is only right when the winner's value really is empty
+      if (!winner || !(field in winner)) {
+        throw new Error(`Merge request ${index + 1}: could not read ${field} from duplicate ${winnerId}. Nothing was merged.`);
+      }
+      if (winner[field] === null) {
+        fieldsToNull.push(field);
+      } else {
+        masterRecord[`ns1:${field}`] = winner[field];
+      }
+    }
+    if (fieldsToNull.length > 0) {
+      masterRecord['ns1:fieldsToNull'] = fieldsToNull;
+    }
+    return { masterRecord, recordToMergeIds: request.duplicateIds };
+  });
+
+  const results: MergeResult[] = [];
+  // The SOAP merge call accepts at most 200 merge requests
+  for (let i = 0; i < mergeRequests.length; i += 200) {
+    const response = await conn.soap.merge(mergeRequests.slice(i, i + 200));
+    results.push(...(Array.isArray(response) ? response : [response]));
+  }
+  return results;
+}
+
+// Helper function to preview emptyRecycleBin: which records would be purged and which are not in the Recycle Bin
+async function previewEmptyRecycleBin(conn: any, args: DMLArgs, ids: string[]) {
+  const { operation, objectName, records } = args;
+  const deleted = await findDeletedRecordIds(conn, objectName, ids);
+  const missing = ids.filter(id => !deleted.has(normalizeRecordKey('Id', id)));
+  const token = issueConfirmationToken(conn.instanceUrl, { operation, objectName, records });
+
+  let responseText = `DRY RUN - EMPTYRECYCLEBIN of ${ids.length} ${objectName} records. Nothing was written.\n`;
+  responseText += `- ${ids.length - missing.length} records in the Recycle Bin will be removed permanently and can no longer be restored\n`;
+  if (missing.length > 0) {
+    responseText += `- Not in the Recycle Bin (will fail): ${missing.join(', ')}\n`;
+  }
+  responseText += `\nTo commit, call salesforce_dml_records again with the same operation, objectName and records` +
+    ` plus confirmationToken: "${token}" (valid for 15 minutes, single use).`;
+
+  return {
+    content: [{
+      type: "text",
+      text: responseText
+    }],
+    isError: false,
+  };
+}
+
+// Helper function to run merge, undelete and emptyRecycleBin, which bypass the snapshot and journal
+async function handleRecycleBinOrMerge(conn: any, args: DMLArgs) {
+  const { operation, objectName, records } = args;
+  let results: DMLResult[];
+  let merged: MergeResult[] = [];
+
+  if (operation === 'merge') {
+    results = merged = await mergeRecords(conn, objectName, records);
+  } else {
+    const ids = records.map(record => record.Id);
+    if (ids.some(id => !id)) {
+      throw new Error(`Every record needs an Id for ${operation}`);
+    }
+    if (operation === 'emptyRecycleBin') {
+      // Purged records cannot be restored, so this is previewed and confirmed like the other destructive operations
+      if (args.dryRun) {
+        return previewEmptyRecycleBin(conn, args, ids);
+      }
+      const confirmationError = checkConfirmationToken(conn, args, { operation, objectName, records });
+      if (confirmationError) return confirmationError;
+    }
+    results = operation === 'undelete'
+      ? await undeleteRecords(conn, ids)
+      : await runConfirmedWrite(args.confirmationToken!, operation, () => emptyRecycleBin(conn, ids));
+  }
+
+  let responseText = formatDMLResults(operation, results);
+  const successful = merged.filter(result => result.success);
+  if (successful.length > 0) {
+    responseText += 'Merged:\n';
+    successful.forEach(result => {
+      const mergedIds = ([] as string[]).concat(result.mergedRecordIds || []).join(', ');
+      const related = ([] as string[]).concat(result.updatedRelatedIds || []).length;
+      responseText += `- ${mergedIds} into ${result.id} (${related} related records re-parented)\n`;
+    });
+  }
+  if (operation === 'emptyRecycleBin') {
+    responseText += 'Records removed from the Recycle Bin can no longer be restored.';
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: responseText.trimEnd()
+    }],
+    isError: results.some(result => !result.success),
+  };
+}
+
+// Helper function to check and reserve the dry-run token of a commit; returns the error response when it cannot go ahead
+function checkConfirmationToken(conn: any, args: DMLArgs, payload: unknown) {
+  if (!args.confirmationToken) {
+    return {
+      content: [{
+        type: "text",
+        text: `${args.operation.toUpperCase()} needs a confirmationToken. Nothing was written.\n` +
+          `Run the call with dryRun: true, check the preview, then repeat it with the returned confirmationToken.`
+      }],
+      isError: true,
+    };
+  }
+  const confirmation = reserveConfirmationToken(args.confirmationToken, conn.instanceUrl, payload);
+  if (!confirmation.isValid) {
+    return {
+      content: [{
+        type: "text",
+        text: confirmation.error!
+      }],
+      isError: true,
+    };
+  }
+  return undefined;
+}
+
+// Helper function to run a write whose token was reserved, using the token up afterwards. When the session expired
+// the token stays valid for a retry, unless the operation creates records: update, delete, upsert and emptyRecycleBin
+// end in the same state when records that were already written before the session expired are sent again
+async function runConfirmedWrite<T>(token: string, operation: DMLArgs['operation'], write: () => Promise<T>): Promise<T> {
+  let used = true;
+  try {
+    return await write();
+  } catch (error) {
+    used = operation === 'insert' || !isInvalidSessionError(error);
+    throw error;
+  } finally {
+    settleConfirmationToken(token, used);
+  }
+}
+
+// Helper function to build the standard DML summary: counts, then the errors of each failed record
+function formatDMLResults(operation: string, results: DMLResult[], allOrNone = false): string {
+  const successCount = results.filter(r => r.success).length;
+  const failureCount = results.length - successCount;
+  const rolledBack = results.filter(isRolledBackOnly).length;
+
+  let responseText = allOrNone && failureCount > 0
+    ? `${operation.toUpperCase()} operation rolled back (allOrNone). No records were saved.\n`
+    : `${operation.toUpperCase()} operation completed.\n`;
+  responseText += `Processed ${results.length} records:\n`;
+  responseText += `- Successful: ${successCount}\n`;
+  responseText += `- Failed: ${failureCount}\n\n`;
+
+  if (failureCount > 0) {
+    responseText += 'Errors:\n';
+    results.forEach((r: DMLResult, idx: number) => {
+      if (!r.success && r.errors && !isRolledBackOnly(r)) {
+        responseText += `Record ${idx + 1}:\n`;
+        responseText += formatRecordErrors(r.errors);
+      }
+    });
+    if (rolledBack > 0) {
+      responseText += `${rolledBack} other records had no errors of their own and were rolled back with them.\n`;
+    }
+  }
+  return responseText;
 }
 
 export async function handleDMLRecords(conn: any, args: DMLArgs) {
   const { operation, objectName, records, externalIdField } = args;
 
+  if (operation === 'upsert' && !externalIdField) {
+    throw new Error('externalIdField is required for upsert operations');
+  }
+  if (args.allOrNone && records.length > MAX_COLLECTION_RECORDS) {
+    throw new Error(`allOrNone supports at most ${MAX_COLLECTION_RECORDS} records per call; use the composite operation or split the records`);
+  }
+  if (args.allOrNone && args.useBulk) {
+    throw new Error('Bulk API jobs cannot roll back on failure; remove useBulk to use allOrNone');
+  }
+
+  if (operation === 'composite') {
+    if (args.dryRun || args.useBulk) {
+      throw new Error('dryRun and useBulk are not supported for the composite operation');
+    }
+    return handleCompositeDML(conn, args);
+  }
+  if (operation === 'merge' || operation === 'undelete' || operation === 'emptyRecycleBin') {
+    if (args.useBulk || args.allOrNone) {
+      throw new Error(`useBulk and allOrNone are not supported for ${operation}`);
+    }
+    if (args.dryRun && operation !== 'emptyRecycleBin') {
+      throw new Error(`dryRun is not supported for ${operation}`);
+    }
+    return handleRecycleBinOrMerge(conn, args);
+  }
+
+  const issues = args.skipValidation || operation === 'delete'
+    ? []
+    : validateDMLRecords(await describeObject(conn, objectName), operation, records, externalIdField);
+  const validationErrors = issues.filter(issue => issue.severity === 'error');
+
+  if (args.dryRun) {
+    return previewDML(conn, args, issues);
+  }
+  if (validationErrors.length > 0) {
+    const recordCount = new Set(validationErrors.map(issue => issue.index)).size;
+    return {
+      content: [{
+        type: "text",
+        text: `${operation.toUpperCase()} rejected before sending: ${validationErrors.length} errors in ${recordCount} of ${records.length} records. ` +
+          `Nothing was written.\n\n${formatRecordIssues(issues)}\n\nFix the records, or set skipValidation to true to send them anyway.`
+      }],
+      isError: true,
+    };
+  }
+  const warningNote = issues.length > 0 ? `\nValidation warnings:\n${formatRecordIssues(issues)}\n` : '';
+  // Changes to existing records have to go through a preview first
+  if (operation !== 'insert' || args.confirmationToken) {
+    const confirmationError = checkConfirmationToken(conn, args, { operation, objectName, records, externalIdField });
+    if (confirmationError) return confirmationError;
+  }
+
+  return args.confirmationToken
+    ? runConfirmedWrite(args.confirmationToken, operation, () => commitRecords(conn, args, operation, warningNote))
+    : commitRecords(conn, args, operation, warningNote);
+}
+
+// Helper function to snapshot, write and journal the records of an insert, update, delete or upsert
+async function commitRecords(conn: any, args: DMLArgs, operation: RecordOperation, warningNote: string) {
+  const { objectName, records, externalIdField } = args;
+
+  // A failed snapshot should not block the write itself; the response says it cannot be undone
+  let snapshot = new Map<string, any>();
+  let snapshotError: string | undefined;
+  try {
+    snapshot = await captureSnapshot(conn, args);
+  } catch (error) {
+    snapshotError = error instanceof Error ? error.message : String(error);
+    logger.warn(`Could not snapshot ${objectName} records for the undo journal: ${snapshotError}`);
+  }
+
+  const useBulk = args.useBulk ?? (!args.allOrNone && records.length > getRuntimeConfig().bulkThreshold);
+  if (useBulk) {
+    const response = await handleBulkDML(conn, { ...args, operation }, snapshot, snapshotError);
+    response.content[0].text += warningNote;
+    return response;
+  }
+
   let result: DMLResult | DMLResult[];
+  const options = { allOrNone: Boolean(args.allOrNone) };
   
   switch (operation) {
     case 'insert':
-      result = await conn.sobject(objectName).create(records);
+      result = await conn.sobject(objectName).create(records, options);
       break;
     case 'update':
-      result = await conn.sobject(objectName).update(records);
+      result = await conn.sobject(objectName).update(records, options);
       break;
     case 'delete':
-      result = await conn.sobject(objectName).destroy(records.map((r: any) => r.Id));
+      result = await conn.sobject(objectName).destroy(records.map((r: any) => r.Id), options);
       break;
     case 'upsert':
       if (!externalIdField) {
         throw new Error('externalIdField is required for upsert operations');
       }
-      result = await conn.sobject(objectName).upsert(records, externalIdField);
+      result = args.allOrNone
+        ? await upsertAllOrNone(conn, objectName, records, externalIdField)
+        : await conn.sobject(objectName).upsert(records, externalIdField);
       break;
     default:
       throw new Error(`Unsupported operation: ${operation}`);
@@ -70,46 +801,11 @@ export async function handleDMLRecords(conn: any, args: DMLArgs) {
 
   // Format DML results
   const results = Array.isArray(result) ? result : [result];
-  const successCount = results.filter(r => r.success).length;
-  const failureCount = results.length - successCount;
+  const journal = snapshotError ? undefined : recordJournalEntry(conn, args, snapshot, results);
 
-  let responseText = `${operation.toUpperCase()} operation completed.\n`;
-  responseText += `Processed ${results.length} records:\n`;
-  responseText += `- Successful: ${successCount}\n`;
-  responseText += `- Failed: ${failureCount}\n\n`;
-
-  if (failureCount > 0) {
-    responseText += 'Errors:\n';
-    results.forEach((r: DMLResult, idx: number) => {
-      if (!r.success && r.errors) {
-        responseText += `Record ${idx + 1}:\n`;
-        if (Array.isArray(r.errors)) {
-          r.errors.forEach((error: SalesforceError) => {
-            responseText += `  - ${error.message}`;
-            if (error.statusCode) {
-              responseText += ` [${error.statusCode}]`;
-            }
-            if (error.fields && error.fields.length > 0) {
-              responseText += `\n    Fields: ${error.fields.join(', ')}`;
-            }
-            responseText += '\n';
-          });
-        } else {
-          // Single error object
-          const error = r.errors as SalesforceError;
-          responseText += `  - ${error.message}`;
-          if (error.statusCode) {
-            responseText += ` [${error.statusCode}]`;
-          }
-          if (error.fields) {
-            const fields = Array.isArray(error.fields) ? error.fields.join(', ') : error.fields;
-            responseText += `\n    Fields: ${fields}`;
-          }
-          responseText += '\n';
-        }
-      }
-    });
-  }
+  let responseText = formatDMLResults(operation, results, args.allOrNone);
+  responseText += formatJournalNote(journal, snapshotError);
+  responseText += warningNote;
 
   return {
     content: [{
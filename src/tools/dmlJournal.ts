@@ -0,0 +1,230 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { DMLResult, SalesforceError } from "../types/salesforce.js";
+import { JournalEntry, listJournalEntries, getJournalEntry, markJournalEntryReverted } from "../utils/dmlJournal.js";
+import { fetchRecordsByKey, findDeletedRecordIds, normalizeRecordKey, undeleteRecords } from "../utils/records.js";
+
+export const DML_JOURNAL: Tool = {
+  name: "salesforce_dml_journal",
+  description: `List and revert operations made with salesforce_dml_records.
+
+Every insert, update, delete and upsert is recorded in an undo journal:
+- Inserted records are reverted by deleting them
+- Updated records are reverted by writing back their previous field values
+- Deleted records are restored from the Recycle Bin, or re-inserted from the saved copy (with a new Id) if they are no longer there
+
+Examples:
+1. Show recent operations: action: "list"
+2. Undo an operation: action: "revert", entryId: "dml-1a2b3c4d"
+
+Reverting an older entry whose records were changed again by a later entry is refused unless force is true,
+because it would overwrite the later changes.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["list", "revert"],
+        description: "list shows journal entries for the current org; revert undoes one entry"
+      },
+      entryId: {
+        type: "string",
+        description: "Journal entry to revert (required for revert)",
+        optional: true
+      },
+      force: {
+        type: "boolean",
+        description: "Revert even if later operations changed the same records",
+        optional: true
+      }
+    },
+    required: ["action"]
+  }
+};
+
+export interface DMLJournalArgs {
+  action: 'list' | 'revert';
+  entryId?: string;
+  force?: boolean;
+}
+
+// REST sObject collection calls accept at most 200 records
+const CHUNK_SIZE = 200;
+
+// Helper function to run a record call in chunks and collect the results in input order
+async function runInChunks<T>(items: T[], call: (chunk: T[]) => Promise<DMLResult | DMLResult[]>): Promise<DMLResult[]> {
+  const results: DMLResult[] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    const result = await call(items.slice(i, i + CHUNK_SIZE));
+    results.push(...(Array.isArray(result) ? result : [result]));
+  }
+  return results;
+}
+
+// Helper function to flatten a record result's errors into one line
+function formatErrors(result: DMLResult): string {
+  const errors = Array.isArray(result.errors) ? result.errors : result.errors ? [result.errors] : [];
+  return errors.map((error: SalesforceError) => `${error.message}${error.statusCode ? ` [${error.statusCode}]` : ''}`).join('; ') || 'Unknown error';
+}
+
+// Helper function to summarize an entry in the journal listing
+function formatEntry(entry: JournalEntry): string {
+  const counts = ['created', 'updated', 'deleted']
+    .map(action => [action, entry.changes.filter(change => change.action === action).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([action, count]) => `${count} ${action}`)
+    .join(', ');
+  const status = entry.revertedAt ? `reverted ${entry.revertedAt}` : 'active';
+  return `${entry.id} - ${entry.createdAt} - ${entry.operation.toUpperCase()} ${entry.objectName} (${counts}) [${status}]`;
+}
+
+// Helper function to find later active entries that touched the same records
+function findConflicts(entry: JournalEntry): JournalEntry[] {
+  const ids = new Set(entry.changes.map(change => change.id));
+  // Entries are listed newest first, so everything before this entry came after it
+  const entries = listJournalEntries(entry.org);
+  return entries.slice(0, entries.indexOf(entry)).filter(other =>
+    !other.revertedAt && other.changes.some(change => ids.has(change.id))
+  );
+}
+
+// Helper function to undo every change of a journal entry, collecting per-record outcomes
+async function revertEntry(conn: any, entry: JournalEntry) {
+  const sobject = conn.sobject(entry.objectName);
+  const lines: string[] = [];
+  let failures = 0;
+
+  const created = entry.changes.filter(change => change.action === 'created');
+  if (created.length > 0) {
+    const results = await runInChunks(created.map(change => change.id), chunk => sobject.destroy(chunk));
+    // Records already deleted by an earlier, partially failed revert count as reverted
+    const failed = results.map((result, index) => ({ result, change: created[index] }))
+      .filter(({ result }) => !result.success && !formatErrors(result).includes('ENTITY_IS_DELETED'));
+    failures += failed.length;
+    lines.push(`- Deleted ${created.length - failed.length} inserted records`);
+    failed.forEach(({ result, change }) => lines.push(`- Could not delete inserted record ${change.id}: ${formatErrors(result)}`));
+  }
+
+  const updated = entry.changes.filter(change => change.action === 'updated');
+  if (updated.length > 0) {
+    const results = await runInChunks(updated.map(change => ({ ...change.before, Id: change.id })), chunk => sobject.update(chunk));
+    const failed = results.map((result, index) => ({ result, change: updated[index] })).filter(({ result }) => !result.success);
+    failures += failed.length;
+    lines.push(`- Restored previous values on ${updated.length - failed.length} updated records`);
+    failed.forEach(({ result, change }) => lines.push(`- Could not restore ${change.id}: ${formatErrors(result)}`));
+  }
+
+  const deleted = entry.changes.filter(change => change.action === 'deleted');
+  if (deleted.length > 0) {
+    const undeleted = await undeleteRecords(conn, deleted.map(change => change.id));
+    const notUndeleted = deleted
+      .map((change, index) => ({ change, result: undeleted[index] }))
+      .filter(({ result }) => !result?.success);
+
+    // A failed undelete only means the record is gone when it is neither live (e.g. restored by an earlier,
+    // partially failed revert) nor still in the Recycle Bin, and the user was allowed to see it; anything else
+    // would be re-inserted as a duplicate
+    const failedIds = notUndeleted.map(({ change }) => change.id);
+    const live = failedIds.length > 0 ? await fetchRecordsByKey(conn, entry.objectName, 'Id', failedIds, []) : new Map<string, any>();
+    const inRecycleBin = failedIds.length > 0 ? await findDeletedRecordIds(conn, entry.objectName, failedIds) : new Set<string>();
+    const missing: typeof deleted = [];
+    const undeleteErrors: string[] = [];
+    let alreadyRestored = 0;
+    notUndeleted.forEach(({ change, result }) => {
+      const key = normalizeRecordKey('Id', change.id);
+      if (live.has(key)) {
+        alreadyRestored++;
+      } else if (inRecycleBin.has(key) || (result && formatErrors(result).includes('INSUFFICIENT_ACCESS'))) {
+        undeleteErrors.push(`- Could not undelete ${change.id}: ${result ? formatErrors(result) : 'Unknown error'}`);
+      } else {
+        missing.push(change);
+      }
+    });
+    lines.push(`- Restored ${deleted.length - notUndeleted.length + alreadyRestored} deleted records from the Recycle Bin`, ...undeleteErrors);
+    failures += undeleteErrors.length;
+
+    // Records purged from the Recycle Bin can only come back as copies with new Ids
+    if (missing.length > 0) {
+      const results = await runInChunks(missing.map(change => ({ ...change.before })), chunk => sobject.create(chunk));
+      results.forEach((result, index) => {
+        if (result.success) {
+          lines.push(`- Re-inserted ${missing[index].id} as ${result.id} (no longer in the Recycle Bin)`);
+        } else {
+          failures++;
+          lines.push(`- Could not restore deleted record ${missing[index].id}: ${formatErrors(result)}`);
+        }
+      });
+    }
+  }
+
+  return { lines, failures };
+}
+
+/**
+ * Lists the DML undo journal for the current org or reverts one of its entries
+ * @param conn Connected jsforce Connection
+ * @param args Action and entry to revert
+ * @returns Tool response with the journal listing or the revert outcome
+ */
+export async function handleDMLJournal(conn: any, args: DMLJournalArgs) {
+  try {
+    if (args.action === 'list') {
+      const entries = listJournalEntries(conn.instanceUrl);
+      return {
+        content: [{
+          type: "text",
+          text: entries.length === 0
+            ? 'The undo journal has no entries for this org.'
+            : `Undo journal (newest first):\n${entries.map(formatEntry).join('\n')}`
+        }],
+        isError: false,
+      };
+    }
+
+    if (args.action !== 'revert') {
+      throw new Error(`Unsupported action: ${args.action}`);
+    }
+    if (!args.entryId) {
+      throw new Error('entryId is required to revert a journal entry');
+    }
+
+    const entry = getJournalEntry(args.entryId);
+    if (!entry || entry.org !== conn.instanceUrl) {
+      throw new Error(`No journal entry ${args.entryId} for this org. Use action "list" to see available entries.`);
+    }
+    if (entry.revertedAt) {
+      throw new Error(`Journal entry ${entry.id} was already reverted at ${entry.revertedAt}`);
+    }
+
+    const conflicts = findConflicts(entry);
+    if (conflicts.length > 0 && !args.force) {
+      throw new Error(`Later operations changed the same records: ${conflicts.map(conflict => conflict.id).join(', ')}. ` +
+        'Revert those first, or set force to true to overwrite their changes.');
+    }
+
+    const { lines, failures } = await revertEntry(conn, entry);
+    if (failures === 0) {
+      markJournalEntryReverted(entry.id);
+    }
+
+    let responseText = `Reverted ${entry.operation.toUpperCase()} on ${entry.objectName} (${entry.id}):\n${lines.join('\n')}`;
+    if (failures > 0) {
+      responseText += `\n\n${failures} changes could not be reverted; the entry stays active so the revert can be retried.`;
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: responseText
+      }],
+      isError: failures > 0,
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: "text",
+        text: `Error managing DML journal: ${error instanceof Error ? error.message : String(error)}`
+      }],
+      isError: true,
+    };
+  }
+}
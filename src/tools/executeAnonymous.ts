@@ -1,4 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
 import type { Connection } from "jsforce";
 
 export const EXECUTE_ANONYMOUS: Tool = {
@@ -66,7 +67,7 @@ export async function handleExecuteAnonymous(conn: any, args: ExecuteAnonymousAr
       throw new Error('apexCode is required and cannot be empty');
     }
     
-    console.error(`Executing anonymous Apex code`);
+    logger.info(`Executing anonymous Apex code`);
     
     // Set default log level if not provided
     const logLevel = args.logLevel || 'DEBUG';
@@ -114,7 +115,7 @@ export async function handleExecuteAnonymous(conn: any, args: ExecuteAnonymousAr
           // Retrieve the log body
           const logBody = await conn.tooling.request({
             method: 'GET',
-            url: `${conn.instanceUrl}/services/data/v58.0/tooling/sobjects/ApexLog/${logId}/Body`
+            url: `${conn.instanceUrl}/services/data/v${conn.version}/tooling/sobjects/ApexLog/${logId}/Body`
           });
           
           responseText += `\n**Debug Log:**\n\`\`\`\n${logBody}\n\`\`\``;
@@ -133,7 +134,7 @@ export async function handleExecuteAnonymous(conn: any, args: ExecuteAnonymousAr
       }]
     };
   } catch (error) {
-    console.error('Error executing anonymous Apex:', error);
+    logger.error('Error executing anonymous Apex:', error);
     return {
       content: [{ 
         type: "text", 
@@ -1,4 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
 import type { Connection } from "jsforce";
 
 export const MANAGE_DEBUG_LOGS: Tool = {
@@ -295,7 +296,7 @@ export async function handleManageDebugLogs(conn: any, args: ManageDebugLogsArgs
             }]
           };
         } catch (deleteError) {
-          console.error('Error deleting trace flags:', deleteError);
+          logger.error('Error deleting trace flags:', deleteError);
           
           // Fallback to setting a future expiration date if delete fails
           try {
@@ -320,7 +321,7 @@ export async function handleManageDebugLogs(conn: any, args: ManageDebugLogsArgs
               }]
             };
           } catch (updateError) {
-            console.error('Error updating trace flags:', updateError);
+            logger.error('Error updating trace flags:', updateError);
             throw new Error(`Could not disable debug logs: ${deleteError instanceof Error ? deleteError.message : String(deleteError)}`);
           }
         }
@@ -357,7 +358,7 @@ export async function handleManageDebugLogs(conn: any, args: ManageDebugLogsArgs
                 // Retrieve the log body
                 const logBody = await conn.tooling.request({
                   method: 'GET',
-                  url: `${conn.instanceUrl}/services/data/v58.0/tooling/sobjects/ApexLog/${log.Id}/Body`
+                  url: `${conn.instanceUrl}/services/data/v${conn.version}/tooling/sobjects/ApexLog/${log.Id}/Body`
                 });
                 
                 let responseText = `**Log Details:**\n\n`;
@@ -376,7 +377,7 @@ export async function handleManageDebugLogs(conn: any, args: ManageDebugLogsArgs
                   }]
                 };
               } catch (logError) {
-                console.error('Error retrieving log body:', logError);
+                logger.error('Error retrieving log body:', logError);
                 return {
                   content: [{ 
                     type: "text", 
@@ -404,7 +405,7 @@ export async function handleManageDebugLogs(conn: any, args: ManageDebugLogsArgs
               };
             }
           } catch (error) {
-            console.error('Error retrieving log:', error);
+            logger.error('Error retrieving log:', error);
             return {
               content: [{ 
                 type: "text", 
@@ -469,7 +470,7 @@ export async function handleManageDebugLogs(conn: any, args: ManageDebugLogsArgs
         throw new Error(`Invalid operation: ${args.operation}. Must be 'enable', 'disable', or 'retrieve'.`);
     }
   } catch (error) {
-    console.error('Error managing debug logs:', error);
+    logger.error('Error managing debug logs:', error);
     return {
       content: [{ 
         type: "text", 
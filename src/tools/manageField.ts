@@ -1,24 +1,40 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
 import { FieldMetadataInfo } from "../types/metadata.js";
+import { describeObject, invalidateDescribe } from "../utils/describeCache.js";
+import { consumeConfirmationToken, issueConfirmationToken } from "../utils/dmlConfirmation.js";
+import { getFieldConversion } from "../utils/fieldConversion.js";
+import { BLOCKING_REFERENCE_TYPES, MetadataReference, findReferences, formatReferences, getCustomFieldId, getSaveError, readMetadata } from "../utils/metadata.js";
 
 // ... (rest of the file is unchanged, but the import is corrected)
 // NOTE: I am providing the full file for completeness.
 export const MANAGE_FIELD: Tool = {
   name: "salesforce_manage_field",
-  description: `Create new custom fields or modify existing fields on any Salesforce object:
-  - Field Types: Text, Number, Date, Lookup, Master-Detail, Picklist etc.
+  description: `Create, modify, delete or change the type of custom fields on any Salesforce object:
+  - Field Types: Text, Number, Date, Time, Lookup, Master-Detail, Picklist, Formula, Roll-Up Summary, Auto Number, Geolocation, Encrypted Text etc.
   - Properties: Required, Unique, External ID, Length, Scale etc.
   - Relationships: Create lookups and master-detail relationships
-  - Automatically grants Field Level Security to System Administrator (or specified profiles)
-  Examples: Add Rating__c picklist to Account, Create Account lookup on Custom Object
+  - Formulas: formula plus returnType (Checkbox, Currency, Date, DateTime, Number, Percent, Text, Time)
+  - Roll-Up Summary (type Summary): created on the master object; summaryOperation (count, sum, min, max),
+    summarizedField as 'ChildObject.Field' (not needed for count) and optionally summaryForeignKey as 'ChildObject.MasterDetailField'
+  - Auto Number: displayFormat such as 'INV-{0000}' and optional startingNumber
+  - Picklists can use a global value set with valueSetName instead of picklistValues
+  - Automatically grants Field Level Security to System Administrator (or specified profiles); formula, roll-up and auto number fields are granted read access only
+  - Delete (operation delete): lists the Apex classes, triggers, formulas, validation rules and layouts that reference the field
+  - Change type (operation changeType, new type in type): checks that Salesforce allows the conversion and which
+    existing values would be cleared or truncated
+  Delete and changeType first return a preview with a confirmationToken; repeat the call with the same arguments plus
+  that confirmationToken to apply it. They are refused while Apex, formulas or validation rules reference the field.
+  Examples: Add Rating__c picklist to Account, Create Account lookup on Custom Object,
+  Add Total_Amount__c roll-up summing Invoice_Line__c.Amount__c on Invoice__c, Change Code__c on Product2 from Text to Number
   Note: Use grantAccessTo parameter to specify profiles, defaults to System Administrator`,
   inputSchema: {
     type: "object",
     properties: {
       operation: {
         type: "string",
-        enum: ["create", "update"],
-        description: "Whether to create new field or update existing"
+        enum: ["create", "update", "delete", "changeType"],
+        description: "Whether to create a new field, update, delete or change the type of an existing one"
       },
       objectName: {
         type: "string",
@@ -35,10 +51,11 @@ export const MANAGE_FIELD: Tool = {
       },
       type: {
         type: "string",
-        enum: ["Checkbox", "Currency", "Date", "DateTime", "Email", "Number", "Percent", 
+        enum: ["Checkbox", "Currency", "Date", "DateTime", "Time", "Email", "Number", "Percent", 
                "Phone", "Picklist", "MultiselectPicklist", "Text", "TextArea", "LongTextArea", 
-               "Html", "Url", "Lookup", "MasterDetail"],
-        description: "Field type (required for create)",
+               "Html", "Url", "Lookup", "MasterDetail", "Formula", "Summary", "AutoNumber",
+               "Geolocation", "EncryptedText"],
+        description: "Field type (required for create; the new type for changeType)",
         optional: true
       },
       required: {
@@ -104,6 +121,60 @@ export const MANAGE_FIELD: Tool = {
         description: "Values for Picklist/MultiselectPicklist fields",
         optional: true
       },
+      valueSetName: {
+        type: "string",
+        description: "Global value set to use for Picklist/MultiselectPicklist fields instead of picklistValues",
+        optional: true
+      },
+      formula: {
+        type: "string",
+        description: "Formula expression (for Formula fields)",
+        optional: true
+      },
+      returnType: {
+        type: "string",
+        enum: ["Checkbox", "Currency", "Date", "DateTime", "Number", "Percent", "Text", "Time"],
+        description: "Type of the value a Formula field returns (required for Formula)",
+        optional: true
+      },
+      summaryOperation: {
+        type: "string",
+        enum: ["count", "sum", "min", "max"],
+        description: "Aggregate of a Summary (roll-up) field",
+        optional: true
+      },
+      summarizedField: {
+        type: "string",
+        description: "Child field to aggregate as 'ChildObject.Field' (for Summary fields; not needed for count)",
+        optional: true
+      },
+      summaryForeignKey: {
+        type: "string",
+        description: "Master-detail field on the child as 'ChildObject.Field' (for Summary fields; found automatically when there is only one)",
+        optional: true
+      },
+      displayFormat: {
+        type: "string",
+        description: "Display format for AutoNumber fields (e.g. 'INV-{0000}')",
+        optional: true
+      },
+      startingNumber: {
+        type: "number",
+        description: "First number for AutoNumber fields (default 1)",
+        optional: true
+      },
+      maskType: {
+        type: "string",
+        enum: ["all", "lastFour", "creditCard", "nino", "ssn", "sin"],
+        description: "Which characters EncryptedText fields mask (default all)",
+        optional: true
+      },
+      maskChar: {
+        type: "string",
+        enum: ["asterisk", "X"],
+        description: "Mask character for EncryptedText fields (default asterisk)",
+        optional: true
+      },
       description: {
         type: "string",
         description: "Description of the field",
@@ -114,14 +185,26 @@ export const MANAGE_FIELD: Tool = {
         items: { type: "string" },
         description: "Profile names to grant field access to (defaults to ['System Administrator'])",
         optional: true
+      },
+      dryRun: {
+        type: "boolean",
+        description: "For delete and changeType: only preview, even when a confirmationToken is given",
+        optional: true
+      },
+      confirmationToken: {
+        type: "string",
+        description: "Token returned by the delete or changeType preview; the change is only applied if the arguments match the preview",
+        optional: true
       }
     },
     required: ["operation", "objectName", "fieldName"]
   }
 };
 
+export type FieldOperation = 'create' | 'update' | 'delete' | 'changeType';
+
 export interface ManageFieldArgs {
-  operation: 'create' | 'update';
+  operation: FieldOperation;
   objectName: string;
   fieldName: string;
   label?: string;
@@ -137,12 +220,98 @@ export interface ManageFieldArgs {
   relationshipName?: string;
   deleteConstraint?: 'Cascade' | 'Restrict' | 'SetNull';
   picklistValues?: Array<{ label: string; isDefault?: boolean }>;
+  valueSetName?: string;
+  formula?: string;
+  returnType?: FormulaReturnType;
+  summaryOperation?: 'count' | 'sum' | 'min' | 'max';
+  summarizedField?: string;
+  summaryForeignKey?: string;
+  displayFormat?: string;
+  startingNumber?: number;
+  maskType?: string;
+  maskChar?: string;
   description?: string;
   grantAccessTo?: string[];
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+export type FormulaReturnType = 'Checkbox' | 'Currency' | 'Date' | 'DateTime' | 'Number' | 'Percent' | 'Text' | 'Time';
+
+// Field types whose values are calculated by Salesforce and can only be granted read access
+const READ_ONLY_TYPES = ['Formula', 'Summary', 'AutoNumber'];
+const NUMERIC_TYPES = ['Number', 'Currency', 'Percent'];
+
+const OPERATION_VERBS: Record<FieldOperation, string> = {
+  create: 'creating',
+  update: 'updating',
+  delete: 'deleting',
+  changeType: 'changing the type of'
+};
+
+// Helper function to resolve and check the child object fields of a roll-up summary field
+async function buildSummaryMetadata(conn: any, objectName: string, args: ManageFieldArgs): Promise<Pick<FieldMetadataInfo, 'summaryOperation' | 'summarizedField' | 'summaryForeignKey'>> {
+  const { summaryOperation, summarizedField, summaryForeignKey } = args;
+  if (!summaryOperation) {
+    throw new Error('summaryOperation (count, sum, min or max) is required for Summary fields');
+  }
+  if (summaryOperation !== 'count' && !summarizedField) {
+    throw new Error(`summarizedField ('ChildObject.Field') is required for ${summaryOperation} roll-ups`);
+  }
+
+  const childObject = (summaryForeignKey || summarizedField)?.split('.')[0];
+  if (!childObject) {
+    throw new Error("summaryForeignKey ('ChildObject.MasterDetailField') is required for count roll-ups");
+  }
+  if (summarizedField && summaryForeignKey && summarizedField.split('.')[0].toLowerCase() !== childObject.toLowerCase()) {
+    throw new Error('summarizedField and summaryForeignKey must be on the same child object');
+  }
+
+  const childDescribe = await describeObject(conn, childObject);
+  const pointsToParent = (field: { referenceTo: string[] }) =>
+    field.referenceTo.some(target => target.toLowerCase() === objectName.toLowerCase());
+
+  // Roll-ups can only summarize children linked through a master-detail relationship
+  let foreignKey;
+  if (summaryForeignKey) {
+    const keyName = summaryForeignKey.split('.')[1]?.toLowerCase();
+    foreignKey = childDescribe.fields.find(field => field.name.toLowerCase() === keyName);
+    if (!foreignKey || foreignKey.type !== 'reference' || !pointsToParent(foreignKey)) {
+      throw new Error(`${summaryForeignKey} is not a relationship from ${childObject} to ${objectName}`);
+    }
+    if (!foreignKey.cascadeDelete) {
+      throw new Error(`${summaryForeignKey} is a lookup; roll-up summary fields need a master-detail relationship`);
+    }
+  } else {
+    const candidates = childDescribe.fields.filter(field => field.type === 'reference' && field.cascadeDelete && pointsToParent(field));
+    if (candidates.length === 0) {
+      throw new Error(`${childObject} has no master-detail relationship to ${objectName}; roll-up summary fields can only be created on the master object`);
+    }
+    if (candidates.length > 1) {
+      throw new Error(`${childObject} has several master-detail relationships to ${objectName}; set summaryForeignKey to one of: ` +
+        candidates.map(field => `${childDescribe.name}.${field.name}`).join(', '));
+    }
+    foreignKey = candidates[0];
+  }
+
+  let summarized;
+  if (summarizedField) {
+    const fieldName = summarizedField.split('.')[1]?.toLowerCase();
+    summarized = childDescribe.fields.find(field => field.name.toLowerCase() === fieldName);
+    if (!summarized) {
+      throw new Error(`${summarizedField} is not a field on ${childObject}`);
+    }
+  }
+
+  return {
+    summaryOperation,
+    summaryForeignKey: `${childDescribe.name}.${foreignKey.name}`,
+    ...(summarized && { summarizedField: `${childDescribe.name}.${summarized.name}` })
+  };
 }
 
 // Helper function to set field permissions (simplified version of the one in manageFieldPermissions.ts)
-async function grantFieldPermissions(conn: any, objectName: string, fieldName: string, profileNames: string[]): Promise<{success: boolean; message: string}> {
+async function grantFieldPermissions(conn: any, objectName: string, fieldName: string, profileNames: string[], editable = true): Promise<{success: boolean; message: string}> {
   try {
     const fieldApiName = fieldName.endsWith('__c') || fieldName.includes('.') ? fieldName : `${fieldName}__c`;
     const fullFieldName = `${objectName}.${fieldApiName}`;
@@ -182,7 +351,7 @@ async function grantFieldPermissions(conn: any, objectName: string, fieldName: s
           await conn.sobject('FieldPermissions').update({
             Id: existingPerm.records[0].Id,
             PermissionsRead: true,
-            PermissionsEdit: true
+            PermissionsEdit: editable
           });
           results.push(profile.Name);
         } else {
@@ -201,7 +370,7 @@ async function grantFieldPermissions(conn: any, objectName: string, fieldName: s
               SobjectType: objectName,
               Field: fullFieldName,
               PermissionsRead: true,
-              PermissionsEdit: true
+              PermissionsEdit: editable
             });
             results.push(profile.Name);
           } else {
@@ -210,7 +379,7 @@ async function grantFieldPermissions(conn: any, objectName: string, fieldName: s
         }
       } catch (error) {
         errors.push(profile.Name);
-        console.error(`Error granting permission to ${profile.Name}:`, error);
+        logger.error(`Error granting permission to ${profile.Name}:`, error);
       }
     }
 
@@ -226,7 +395,7 @@ async function grantFieldPermissions(conn: any, objectName: string, fieldName: s
       };
     }
   } catch (error) {
-    console.error('Error granting field permissions:', error);
+    logger.error('Error granting field permissions:', error);
     return {
       success: false,
       message: `Field Level Security configuration failed.`
@@ -234,10 +403,331 @@ async function grantFieldPermissions(conn: any, objectName: string, fieldName: s
   }
 }
 
+// Only the first values of a field are checked when a type change is previewed
+const MAX_CHECKED_VALUES = 2000;
+const MAX_LOSS_EXAMPLES = 5;
+
+// Settings that only apply to some field types; they are reset when the type changes
+const TYPE_SPECIFIC_SETTINGS = ['length', 'precision', 'scale', 'visibleLines', 'valueSet', 'displayFormat', 'startingNumber',
+  'deleteConstraint', 'relationshipOrder', 'reparentableMasterDetail', 'writeRequiresMasterRead', 'maskType', 'maskChar', 'defaultValue'];
+
+// Helper function to pick the arguments a delete or type change preview is confirmed against
+function confirmationPayload(args: ManageFieldArgs) {
+  const { operation, objectName, fieldName, type, length, precision, scale, picklistValues, valueSetName,
+    displayFormat, startingNumber, deleteConstraint } = args;
+  return { operation, objectName, fieldName, type, length, precision, scale, picklistValues, valueSetName,
+    displayFormat, startingNumber, deleteConstraint };
+}
+
+// Helper function to find what references a field; a failed lookup is reported instead of blocking the change
+async function checkFieldReferences(conn: any, objectName: string, fieldApiName: string): Promise<{ references: MetadataReference[]; error?: string }> {
+  try {
+    const fieldId = await getCustomFieldId(conn, objectName, fieldApiName);
+    if (!fieldId) {
+      return { references: [], error: 'the field could not be found through the Tooling API' };
+    }
+    return { references: await findReferences(conn, fieldId) };
+  } catch (error) {
+    logger.warn(`Could not check references to ${objectName}.${fieldApiName}:`, error);
+    return { references: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Helper function to read the existing values of a field, skipping empty ones
+async function readFieldValues(conn: any, objectName: string, fieldApiName: string): Promise<{ records: any[]; populated: number; complete: boolean }> {
+  const describe = await describeObject(conn, objectName);
+  const field = describe.fields.find(entry => entry.name.toLowerCase() === fieldApiName.toLowerCase());
+
+  // Long and rich text areas cannot be filtered on, so their empty values are skipped here
+  if (field?.filterable === false) {
+    const result = await conn.query(`SELECT Id, ${fieldApiName} FROM ${objectName} LIMIT ${MAX_CHECKED_VALUES}`);
+    const records = result.records.filter((record: any) => record[fieldApiName] !== null && record[fieldApiName] !== '');
+    return { records, populated: records.length, complete: result.records.length < MAX_CHECKED_VALUES };
+  }
+
+  const count = await conn.query(`SELECT COUNT() FROM ${objectName} WHERE ${fieldApiName} != null`);
+  const result = await conn.query(`SELECT Id, ${fieldApiName} FROM ${objectName} WHERE ${fieldApiName} != null LIMIT ${MAX_CHECKED_VALUES}`);
+  return { records: result.records, populated: count.totalSize, complete: result.records.length >= count.totalSize };
+}
+
+// Helper function to build the picklist values of a text field converted to a picklist from its existing values
+function picklistValuesFromData(records: any[], fieldApiName: string, multiselect: boolean): Array<{ label: string; isDefault?: boolean }> {
+  const values = new Set<string>();
+  for (const record of records) {
+    const value = String(record[fieldApiName]).trim();
+    (multiselect ? value.split(';') : [value]).forEach(entry => entry && values.add(entry.trim()));
+  }
+  if (values.size > 1000) {
+    throw new Error(`The field has ${values.size} distinct values, more than a picklist can hold; pass picklistValues or valueSetName`);
+  }
+  return [...values].sort().map(label => ({ label }));
+}
+
+// Helper function to turn the current field metadata into the metadata of the new type
+function buildConvertedMetadata(current: FieldMetadataInfo, args: ManageFieldArgs, derivedValues: Array<{ label: string; isDefault?: boolean }>): FieldMetadataInfo {
+  const type = args.type!;
+  const metadata: Record<string, any> = { ...current, type };
+  for (const setting of TYPE_SPECIFIC_SETTINGS) {
+    delete metadata[setting];
+  }
+  if (!['Text', 'Number', 'Email', 'AutoNumber'].includes(type)) {
+    delete metadata.unique;
+    delete metadata.externalId;
+  }
+
+  switch (type) {
+    case 'Text':
+      metadata.length = args.length || 255;
+      break;
+    case 'LongTextArea':
+      metadata.length = args.length || 32768;
+      metadata.visibleLines = current.visibleLines || 3;
+      break;
+    case 'Number':
+    case 'Currency':
+    case 'Percent':
+      metadata.precision = args.precision || current.precision || 18;
+      metadata.scale = args.scale ?? current.scale ?? 0;
+      break;
+    case 'Picklist':
+    case 'MultiselectPicklist': {
+      const values = args.picklistValues || derivedValues;
+      if (args.valueSetName) {
+        metadata.valueSet = { valueSetName: args.valueSetName, restricted: true };
+      } else if (!args.picklistValues && current.valueSet) {
+        metadata.valueSet = current.valueSet;
+      } else {
+        metadata.valueSet = {
+          valueSetDefinition: {
+            sorted: true,
+            value: values.map(val => ({ fullName: val.label, default: val.isDefault || false, label: val.label }))
+          }
+        };
+      }
+      if (type === 'MultiselectPicklist') metadata.visibleLines = 4;
+      break;
+    }
+    case 'AutoNumber':
+      if (!args.displayFormat || !/\{0+\}/.test(args.displayFormat)) {
+        throw new Error("displayFormat with a number placeholder such as 'INV-{0000}' is required for AutoNumber fields");
+      }
+      metadata.displayFormat = args.displayFormat;
+      metadata.startingNumber = args.startingNumber ?? 1;
+      delete metadata.required;
+      break;
+    case 'Lookup':
+      metadata.deleteConstraint = args.deleteConstraint || 'SetNull';
+      break;
+    case 'MasterDetail':
+      delete metadata.required;
+      break;
+  }
+  return metadata as FieldMetadataInfo;
+}
+
+// Helper function to refuse a delete or type change while Apex, formulas or validation rules reference the field
+function blockedByReferences(action: string, fieldApiName: string, references: MetadataReference[]) {
+  const blocking = references.filter(reference => BLOCKING_REFERENCE_TYPES.includes(reference.type));
+  if (blocking.length === 0) return undefined;
+  return {
+    content: [{
+      type: "text",
+      text: `Cannot ${action} ${fieldApiName} while these components reference it:\n${formatReferences(blocking)}\n` +
+        `Remove the references first, then try again.`
+    }],
+    isError: true,
+  };
+}
+
+// Helper function to describe the references of a field in a preview
+function referencesText(check: { references: MetadataReference[]; error?: string }): string {
+  if (check.error) return `References could not be checked (${check.error}); Salesforce will still refuse the change if Apex or formulas use the field.`;
+  if (check.references.length === 0) return 'No components reference the field.';
+  return `Referenced by:\n${formatReferences(check.references)}`;
+}
+
+// Helper function to check a confirmation token, returning the error response when it does not match
+function rejectConfirmation(conn: any, args: ManageFieldArgs) {
+  const confirmation = consumeConfirmationToken(args.confirmationToken!, conn.instanceUrl, confirmationPayload(args));
+  if (confirmation.isValid) return undefined;
+  return {
+    content: [{
+      type: "text",
+      text: confirmation.error!
+    }],
+    isError: true,
+  };
+}
+
+// Helper function to delete a custom field after previewing what references it
+async function deleteField(conn: any, args: ManageFieldArgs) {
+  const { objectName, fieldName } = args;
+  const fieldApiName = `${fieldName}__c`;
+  const fullName = `${objectName}.${fieldApiName}`;
+
+  const current: FieldMetadataInfo | undefined = await readMetadata(conn, 'CustomField', fullName);
+  if (!current) {
+    throw new Error(`Field ${fieldApiName} not found on object ${objectName}`);
+  }
+  const check = await checkFieldReferences(conn, objectName, fieldApiName);
+  const blocked = blockedByReferences('delete', fieldApiName, check.references);
+  if (blocked) return blocked;
+
+  if (!args.confirmationToken || args.dryRun) {
+    const values = await readFieldValues(conn, objectName, fieldApiName);
+    const token = issueConfirmationToken(conn.instanceUrl, confirmationPayload(args));
+    return {
+      content: [{
+        type: "text",
+        text: `DELETE PREVIEW - ${fullName} (${current.label}, ${current.formula ? 'Formula' : current.type}). Nothing was deleted.\n` +
+          `Records with a value: ${values.populated}${values.complete ? '' : '+'}\n` +
+          `${referencesText(check)}\n` +
+          `The field is also removed from page layouts, list views and reports. Deleted fields can be restored with their data ` +
+          `from the object's Deleted Fields list in Setup for 15 days.\n\n` +
+          `To delete, call salesforce_manage_field again with the same operation, objectName and fieldName ` +
+          `plus confirmationToken: "${token}" (valid for 15 minutes, single use).`
+      }],
+      isError: false,
+    };
+  }
+
+  const rejected = rejectConfirmation(conn, args);
+  if (rejected) return rejected;
+
+  const result = await conn.metadata.delete('CustomField', fullName);
+  invalidateDescribe(conn, objectName);
+  const saveError = getSaveError(result);
+  if (saveError) {
+    return {
+      content: [{
+        type: "text",
+        text: `Failed to delete custom field ${fieldApiName}: ${saveError}`
+      }],
+      isError: true,
+    };
+  }
+  return {
+    content: [{
+      type: "text",
+      text: `Successfully deleted custom field ${fieldApiName} from ${objectName}. It can be restored from the Deleted Fields list for 15 days.`
+    }],
+    isError: false,
+  };
+}
+
+// Helper function to change the type of a custom field after previewing the effect on its data
+async function changeFieldType(conn: any, args: ManageFieldArgs) {
+  const { objectName, fieldName, type } = args;
+  const fieldApiName = `${fieldName}__c`;
+  const fullName = `${objectName}.${fieldApiName}`;
+  if (!type) {
+    throw new Error('type (the new field type) is required for changeType');
+  }
+
+  const current: FieldMetadataInfo | undefined = await readMetadata(conn, 'CustomField', fullName);
+  if (!current) {
+    throw new Error(`Field ${fieldApiName} not found on object ${objectName}`);
+  }
+  const fromType = current.formula ? 'Formula' : current.type;
+  if (fromType === type) {
+    throw new Error(`Field ${fieldApiName} is already of type ${type}`);
+  }
+  const conversion = getFieldConversion(fromType, type, args.length);
+  if (!conversion.allowed) {
+    throw new Error(`Cannot change ${fieldApiName} from ${fromType} to ${type}: ${conversion.reason}`);
+  }
+
+  const check = await checkFieldReferences(conn, objectName, fieldApiName);
+  const blocked = blockedByReferences(`change the type of`, fieldApiName, check.references);
+  if (blocked) return blocked;
+
+  if (type === 'MasterDetail') {
+    const empty = await conn.query(`SELECT COUNT() FROM ${objectName} WHERE ${fieldApiName} = null`);
+    if (empty.totalSize > 0) {
+      throw new Error(`${empty.totalSize} ${objectName} records have no ${fieldApiName}; every record needs a value before it can become a master-detail field`);
+    }
+  }
+
+  const values = await readFieldValues(conn, objectName, fieldApiName);
+  const needsValues = (type === 'Picklist' || type === 'MultiselectPicklist') && !args.picklistValues && !args.valueSetName && !current.valueSet;
+  const metadata = buildConvertedMetadata(current, args, needsValues ? picklistValuesFromData(values.records, fieldApiName, type === 'MultiselectPicklist') : []);
+
+  if (!args.confirmationToken || args.dryRun) {
+    const lines = [
+      `TYPE CHANGE PREVIEW - ${fullName} from ${fromType} to ${type}. Nothing was changed.`,
+      `Records with a value: ${values.populated}${values.complete ? '' : '+'}`
+    ];
+    if (values.populated > 0 && conversion.effect) {
+      lines.push(`Every value: ${conversion.effect}`);
+    }
+    if (values.populated > 0 && conversion.check) {
+      const affected = values.records
+        .map(record => ({ id: record.Id, value: record[fieldApiName], outcome: conversion.check!(record[fieldApiName]) }))
+        .filter(entry => entry.outcome);
+      const checked = values.complete ? `${values.records.length}` : `first ${values.records.length}`;
+      if (affected.length === 0) {
+        lines.push(`Data loss: none of the ${checked} values are affected`);
+      } else {
+        lines.push(`Data loss: ${affected.length} of the ${checked} values will not be kept as they are, e.g.`);
+        affected.slice(0, MAX_LOSS_EXAMPLES).forEach(entry => {
+          const text = String(entry.value);
+          lines.push(`  - ${entry.id}: ${JSON.stringify(text.length > 60 ? `${text.slice(0, 60)}...` : text)} (${entry.outcome})`);
+        });
+      }
+    }
+    if (needsValues) {
+      const definition = metadata.valueSet?.valueSetDefinition;
+      lines.push(`Picklist values taken from the data: ${definition ? definition.value.length : 0}`);
+    }
+    lines.push(referencesText(check));
+
+    const token = issueConfirmationToken(conn.instanceUrl, confirmationPayload(args));
+    lines.push('', `To apply, call salesforce_manage_field again with the same operation, objectName, fieldName, type and settings ` +
+      `plus confirmationToken: "${token}" (valid for 15 minutes, single use).`);
+    return {
+      content: [{
+        type: "text",
+        text: lines.join('\n')
+      }],
+      isError: false,
+    };
+  }
+
+  const rejected = rejectConfirmation(conn, args);
+  if (rejected) return rejected;
+
+  const result = await conn.metadata.update('CustomField', metadata);
+  invalidateDescribe(conn, objectName);
+  const saveError = getSaveError(result);
+  if (saveError) {
+    return {
+      content: [{
+        type: "text",
+        text: `Failed to change the type of ${fieldApiName}: ${saveError}`
+      }],
+      isError: true,
+    };
+  }
+  return {
+    content: [{
+      type: "text",
+      text: `Successfully changed ${fieldApiName} on ${objectName} from ${fromType} to ${type}`
+    }],
+    isError: false,
+  };
+}
+
 export async function handleManageField(conn: any, args: ManageFieldArgs) {
   const { operation, objectName, fieldName, type, grantAccessTo, ...fieldProps } = args;
 
   try {
+    if (operation === 'delete') {
+      return await deleteField(conn, args);
+    }
+    if (operation === 'changeType') {
+      return await changeFieldType(conn, args);
+    }
+
     if (operation === 'create') {
       if (!type) {
         throw new Error('Field type is required for field creation');
@@ -281,15 +771,64 @@ export async function handleManageField(conn: any, args: ManageFieldArgs) {
           break;
 
         case 'Number':
+        case 'Currency':
+        case 'Percent':
           if (fieldProps.precision) {
             metadata.precision = fieldProps.precision;
             metadata.scale = fieldProps.scale || 0;
           }
           break;
 
+        case 'Formula':
+          if (!fieldProps.formula || !fieldProps.returnType) {
+            throw new Error('formula and returnType are required for Formula fields');
+          }
+          // Formula fields are stored with their return type and a formula attribute
+          metadata.type = fieldProps.returnType;
+          metadata.formula = fieldProps.formula;
+          if (NUMERIC_TYPES.includes(fieldProps.returnType)) {
+            metadata.precision = fieldProps.precision || 18;
+            metadata.scale = fieldProps.scale ?? 2;
+          }
+          delete metadata.required;
+          delete metadata.unique;
+          delete metadata.externalId;
+          break;
+
+        case 'Summary':
+          Object.assign(metadata, await buildSummaryMetadata(conn, objectName, args));
+          if (fieldProps.summaryOperation !== 'count' && fieldProps.precision) {
+            metadata.precision = fieldProps.precision;
+            metadata.scale = fieldProps.scale || 0;
+          }
+          break;
+
+        case 'AutoNumber':
+          if (!fieldProps.displayFormat || !/\{0+\}/.test(fieldProps.displayFormat)) {
+            throw new Error("displayFormat with a number placeholder such as 'INV-{0000}' is required for AutoNumber fields");
+          }
+          metadata.displayFormat = fieldProps.displayFormat;
+          metadata.startingNumber = fieldProps.startingNumber ?? 1;
+          break;
+
+        case 'Geolocation':
+          metadata.type = 'Location';
+          metadata.scale = fieldProps.scale ?? 5;
+          metadata.displayLocationInDecimal = true;
+          break;
+
+        case 'EncryptedText':
+          metadata.length = Math.min(fieldProps.length || 175, 175);
+          metadata.maskType = fieldProps.maskType || 'all';
+          metadata.maskChar = fieldProps.maskChar || 'asterisk';
+          break;
+
         case 'Picklist':
         case 'MultiselectPicklist':
-          if (fieldProps.picklistValues) {
+          if (fieldProps.valueSetName) {
+            // Global value sets are always restricted to their values
+            metadata.valueSet = { valueSetName: fieldProps.valueSetName, restricted: true };
+          } else if (fieldProps.picklistValues) {
             metadata.valueSet = {
               valueSetDefinition: {
                 sorted: true,
@@ -306,6 +845,7 @@ export async function handleManageField(conn: any, args: ManageFieldArgs) {
 
       // Create the field
       const result: any = await conn.metadata.create('CustomField', metadata);
+      invalidateDescribe(conn, objectName);
 
       if (result && (Array.isArray(result) ? result[0].success : result.success)) {
         let permissionMessage = '';
@@ -316,7 +856,7 @@ export async function handleManageField(conn: any, args: ManageFieldArgs) {
         // Wait a moment for field to be fully created
         await new Promise(resolve => setTimeout(resolve, 2000));
         
-        const permissionResult = await grantFieldPermissions(conn, objectName, fieldName, profilesToGrant);
+        const permissionResult = await grantFieldPermissions(conn, objectName, fieldName, profilesToGrant, !READ_ONLY_TYPES.includes(type));
         permissionMessage = `\n${permissionResult.message}`;
         
         return {
@@ -348,6 +888,33 @@ export async function handleManageField(conn: any, args: ManageFieldArgs) {
         ...(fieldProps.precision && { precision: fieldProps.precision, scale: fieldProps.scale || 0 })
       };
 
+      // Calculated and auto number settings only apply to fields that already have them
+      if (fieldProps.formula || fieldProps.returnType) {
+        if (!currentMetadata.formula) {
+          throw new Error(`Field ${fieldName}__c is not a formula field`);
+        }
+        if (fieldProps.formula) metadata.formula = fieldProps.formula;
+        if (fieldProps.returnType) metadata.type = fieldProps.returnType;
+      }
+      if (fieldProps.summaryOperation || fieldProps.summarizedField || fieldProps.summaryForeignKey) {
+        if (currentMetadata.type !== 'Summary') {
+          throw new Error(`Field ${fieldName}__c is not a roll-up summary field`);
+        }
+        Object.assign(metadata, await buildSummaryMetadata(conn, objectName, {
+          ...args,
+          summaryOperation: fieldProps.summaryOperation || currentMetadata.summaryOperation,
+          summarizedField: fieldProps.summarizedField || (fieldProps.summaryOperation === 'count' ? undefined : currentMetadata.summarizedField),
+          summaryForeignKey: fieldProps.summaryForeignKey || currentMetadata.summaryForeignKey
+        }));
+        if (metadata.summaryOperation === 'count') delete metadata.summarizedField;
+      }
+      if (fieldProps.displayFormat) {
+        if (currentMetadata.type !== 'AutoNumber') {
+          throw new Error(`Field ${fieldName}__c is not an auto number field`);
+        }
+        metadata.displayFormat = fieldProps.displayFormat;
+      }
+
       // Special handling for picklist values if provided
       if (fieldProps.picklistValues && 
           (currentMetadata.type === 'Picklist' || currentMetadata.type === 'MultiselectPicklist')) {
@@ -365,6 +932,7 @@ export async function handleManageField(conn: any, args: ManageFieldArgs) {
 
       // Update the field
       const result = await conn.metadata.update('CustomField', metadata);
+      invalidateDescribe(conn, objectName);
 
       if (result && (Array.isArray(result) ? result[0].success : result.success)) {
         return {
@@ -389,7 +957,7 @@ export async function handleManageField(conn: any, args: ManageFieldArgs) {
     return {
       content: [{
         type: "text",
-        text: `Error ${operation === 'create' ? 'creating' : 'updating'} custom field: ${error instanceof Error ? error.message : String(error)}`
+        text: `Error ${OPERATION_VERBS[operation]} custom field: ${error instanceof Error ? error.message : String(error)}`
       }],
       isError: true,
     };
@@ -0,0 +1,282 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { LayoutItem, LayoutMetadataInfo, LayoutSection } from "../types/metadata.js";
+import { describeObject } from "../utils/describeCache.js";
+import { asArray, getSaveError, readMetadata } from "../utils/metadata.js";
+
+export const MANAGE_LAYOUT: Tool = {
+  name: "salesforce_manage_layout",
+  description: `List, read and edit page layouts.
+  - list: layouts of an object
+  - read: sections of a layout with the fields in each column
+  - addFields: put fields into a section (created if missing); fields already on the layout are moved there
+  - removeFields: take fields off the layout
+  - reorderFields: place the listed fields at the top of a section column in the given order
+  Examples: Add Region__c and Tier__c to the 'Account Information' section of 'Account Layout';
+  remove Fax from 'Contact Layout'; reorder the first column of 'Details' on 'Invoice Layout'.
+  Layout names are given without the object prefix, as shown by list.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      operation: {
+        type: "string",
+        enum: ["list", "read", "addFields", "removeFields", "reorderFields"],
+        description: "What to do with the layout"
+      },
+      objectName: {
+        type: "string",
+        description: "API name of the object (e.g. 'Account', 'Custom_Invoice__c')"
+      },
+      layoutName: {
+        type: "string",
+        optional: true,
+        description: "Layout name without the object prefix (e.g. 'Account Layout'); required except for list"
+      },
+      fields: {
+        type: "array",
+        items: { type: "string" },
+        optional: true,
+        description: "Field API names to add, remove or reorder"
+      },
+      sectionLabel: {
+        type: "string",
+        optional: true,
+        description: "Label of the section to add fields to or reorder (required for addFields and reorderFields)"
+      },
+      column: {
+        type: "number",
+        optional: true,
+        description: "Section column (1-based). addFields defaults to the column with the fewest fields, reorderFields to 1"
+      },
+      afterField: {
+        type: "string",
+        optional: true,
+        description: "For addFields: insert after this field instead of at the end of the column"
+      },
+      behavior: {
+        type: "string",
+        enum: ["Edit", "Required", "Readonly"],
+        optional: true,
+        description: "For addFields: how the fields appear (default Edit; fields users cannot edit are always Readonly)"
+      }
+    },
+    required: ["operation", "objectName"]
+  }
+};
+
+export type LayoutOperation = 'list' | 'read' | 'addFields' | 'removeFields' | 'reorderFields';
+
+export interface ManageLayoutArgs {
+  operation: LayoutOperation;
+  objectName: string;
+  layoutName?: string;
+  fields?: string[];
+  sectionLabel?: string;
+  column?: number;
+  afterField?: string;
+  behavior?: 'Edit' | 'Required' | 'Readonly';
+}
+
+// Helper function to percent-encode the characters the Metadata API expects encoded in layout names
+function encodeLayoutName(name: string): string {
+  if (name.includes('%')) return name;
+  return name.replace(/[^A-Za-z0-9 _-]/g, char => char.charCodeAt(0) < 128
+    ? `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`
+    : encodeURIComponent(char));
+}
+
+// Helper function to turn the read result into sections whose columns and items are always arrays
+function normalizeSections(layout: LayoutMetadataInfo): LayoutSection[] {
+  const sections = asArray(layout.layoutSections).map(section => ({
+    ...section,
+    layoutColumns: asArray(section.layoutColumns).map(column => ({
+      ...(typeof column === 'object' ? column : {}),
+      layoutItems: asArray(typeof column === 'object' ? column.layoutItems : undefined)
+    }))
+  }));
+  layout.layoutSections = sections;
+  return sections;
+}
+
+// Helper function to find a section by label, ignoring case
+function findSection(sections: LayoutSection[], label: string): LayoutSection | undefined {
+  return sections.find(section => section.label?.toLowerCase() === label.toLowerCase());
+}
+
+// Helper function to take fields off the layout, returning the items that were removed
+function removeItems(sections: LayoutSection[], fields: string[]): Map<string, LayoutItem> {
+  const wanted = new Set(fields.map(field => field.toLowerCase()));
+  const removed = new Map<string, LayoutItem>();
+  for (const section of sections) {
+    for (const column of section.layoutColumns || []) {
+      column.layoutItems = (column.layoutItems || []).filter(item => {
+        if (!item.field || !wanted.has(item.field.toLowerCase())) return true;
+        removed.set(item.field.toLowerCase(), item);
+        return false;
+      });
+    }
+  }
+  return removed;
+}
+
+// Helper function to format a layout's sections for reading
+function formatLayout(layoutName: string, sections: LayoutSection[]): string {
+  const lines = [`Layout: ${layoutName}`];
+  sections.forEach(section => {
+    lines.push(`\nSection: ${section.label || '(no label)'}${section.style ? ` [${section.style}]` : ''}`);
+    (section.layoutColumns || []).forEach((column, index) => {
+      const items = (column.layoutItems || []).map(item =>
+        item.field ? `${item.field}${item.behavior && item.behavior !== 'Edit' ? ` (${item.behavior})` : ''}`
+          : item.emptySpace ? '(blank space)' : '(other component)');
+      lines.push(`  Column ${index + 1}: ${items.length > 0 ? items.join(', ') : '(empty)'}`);
+    });
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Lists, reads or edits the fields of a page layout through the Metadata API
+ * @param conn Connected jsforce Connection
+ * @param args Layout, operation and fields to change
+ * @returns Tool response with the layout listing, contents or the outcome of the change
+ */
+export async function handleManageLayout(conn: any, args: ManageLayoutArgs) {
+  const { operation, objectName, layoutName, sectionLabel, afterField, behavior } = args;
+  const fields = args.fields || [];
+
+  try {
+    if (operation === 'list') {
+      const listed = asArray<any>(await conn.metadata.list([{ type: 'Layout' }]));
+      const prefix = `${objectName.toLowerCase()}-`;
+      const names = listed
+        .map(entry => entry.fullName as string)
+        .filter(fullName => fullName.toLowerCase().startsWith(prefix))
+        .map(fullName => decodeURIComponent(fullName.slice(prefix.length)))
+        .sort();
+      return {
+        content: [{
+          type: 'text',
+          text: names.length > 0 ? `Layouts for ${objectName}:\n${names.map(name => `  - ${name}`).join('\n')}` : `No layouts found for ${objectName}`
+        }],
+        isError: false
+      };
+    }
+
+    if (!layoutName) {
+      throw new Error(`layoutName is required for ${operation}`);
+    }
+    const fullName = `${objectName}-${encodeLayoutName(layoutName)}`;
+    const layout: LayoutMetadataInfo | undefined = await readMetadata(conn, 'Layout', fullName);
+    if (!layout) {
+      throw new Error(`Layout ${layoutName} not found on ${objectName}. Use operation "list" to see its layouts.`);
+    }
+    const sections = normalizeSections(layout);
+
+    if (operation === 'read') {
+      return {
+        content: [{ type: 'text', text: formatLayout(layoutName, sections) }],
+        isError: false
+      };
+    }
+
+    if (fields.length === 0) {
+      throw new Error(`fields must list at least one field for ${operation}`);
+    }
+
+    let summary: string;
+    if (operation === 'removeFields') {
+      const removed = removeItems(sections, fields);
+      const missing = fields.filter(field => !removed.has(field.toLowerCase()));
+      if (removed.size === 0) {
+        throw new Error(`None of the fields are on layout ${layoutName}: ${fields.join(', ')}`);
+      }
+      summary = `removed ${[...removed.values()].map(item => item.field).join(', ')}` +
+        (missing.length > 0 ? ` (not on the layout: ${missing.join(', ')})` : '');
+    } else if (operation === 'addFields' || operation === 'reorderFields') {
+      if (!sectionLabel) {
+        throw new Error(`sectionLabel is required for ${operation}`);
+      }
+
+      // Fields are checked against the describe so typos fail here instead of in the deploy
+      const describe = await describeObject(conn, objectName);
+      const fieldsByName = new Map(describe.fields.map(field => [field.name.toLowerCase(), field]));
+      const unknown = fields.filter(field => !fieldsByName.has(field.toLowerCase()));
+      if (unknown.length > 0) {
+        throw new Error(`No such fields on ${objectName}: ${unknown.join(', ')}`);
+      }
+
+      let section = findSection(sections, sectionLabel);
+      if (!section) {
+        if (operation === 'reorderFields') {
+          throw new Error(`Section ${sectionLabel} not found on layout ${layoutName}`);
+        }
+        section = {
+          label: sectionLabel,
+          customLabel: true,
+          detailHeading: true,
+          editHeading: true,
+          style: 'TwoColumnsTopToBottom',
+          layoutColumns: [{ layoutItems: [] }, { layoutItems: [] }]
+        };
+        sections.push(section);
+      }
+      const columns = section.layoutColumns || [];
+      if (args.column !== undefined && (args.column < 1 || args.column > columns.length)) {
+        throw new Error(`Section ${section.label} has ${columns.length} columns; column must be between 1 and ${columns.length}`);
+      }
+
+      const removed = removeItems(sections, fields);
+      const newItems: LayoutItem[] = fields.map(name => {
+        const field = fieldsByName.get(name.toLowerCase())!;
+        const existing = removed.get(name.toLowerCase());
+        // Formula and system fields can only be shown read-only
+        const itemBehavior = !field.updateable && !field.createable ? 'Readonly' : behavior || existing?.behavior || 'Edit';
+        return { ...existing, field: field.name, behavior: itemBehavior };
+      });
+
+      if (operation === 'reorderFields') {
+        const column = columns[(args.column ?? 1) - 1];
+        column.layoutItems = [...newItems, ...(column.layoutItems || [])];
+        summary = `placed ${newItems.map(item => item.field).join(', ')} at the top of column ${args.column ?? 1} in section ${section.label}`;
+      } else {
+        let target = args.column !== undefined ? columns[args.column - 1] : undefined;
+        let position: number | undefined;
+        if (afterField) {
+          target = columns.find(column => (column.layoutItems || []).some(item => item.field?.toLowerCase() === afterField.toLowerCase()));
+          if (!target) {
+            throw new Error(`Field ${afterField} is not in section ${section.label}`);
+          }
+          position = target.layoutItems!.findIndex(item => item.field?.toLowerCase() === afterField.toLowerCase()) + 1;
+        }
+        // Without a column, fields go where they balance the section best
+        target = target || columns.reduce((shortest, column) =>
+          (column.layoutItems || []).length < (shortest.layoutItems || []).length ? column : shortest);
+        const items = target.layoutItems || [];
+        items.splice(position ?? items.length, 0, ...newItems);
+        target.layoutItems = items;
+        summary = `added ${newItems.map(item => `${item.field}${item.behavior !== 'Edit' ? ` (${item.behavior})` : ''}`).join(', ')} ` +
+          `to column ${columns.indexOf(target) + 1} of section ${section.label}`;
+      }
+    } else {
+      throw new Error(`Unsupported operation: ${operation}`);
+    }
+
+    const result = await conn.metadata.update('Layout', layout);
+    const saveError = getSaveError(result);
+    if (saveError) {
+      return {
+        content: [{ type: 'text', text: `Failed to update layout ${layoutName}: ${saveError}` }],
+        isError: true
+      };
+    }
+
+    return {
+      content: [{ type: 'text', text: `Successfully updated layout ${layoutName}: ${summary}` }],
+      isError: false
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error managing layout: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true
+    };
+  }
+}
@@ -1,19 +1,26 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { MetadataInfo } from "../types/metadata.js";
+import { describeObject, invalidateDescribe } from "../utils/describeCache.js";
+import { consumeConfirmationToken, issueConfirmationToken } from "../utils/dmlConfirmation.js";
+import { APEX_REFERENCE_TYPES, MetadataReference, findReferences, formatReferences, getObjectDurableId, getSaveError, readMetadata } from "../utils/metadata.js";
 
 export const MANAGE_OBJECT: Tool = {
-  name: "MANAGE_OBJECT",
-  description: `Create or update custom objects in Salesforce.
+  name: "salesforce_manage_object",
+  description: `Create, read, update or delete custom objects in Salesforce.
   - Create new custom objects with labels, name field configuration and sharing model
   - Update object labels, description, and sharing model
-  Examples: Create Custom_Invoice__c with AutoNumber name field, Update sharing model to Private`,
+  - Turn features on or off: enableHistory (field history tracking), enableReports, enableActivities (tasks and events; cannot be turned off again) and enableSearch
+  - read: returns the object's full CustomObject metadata
+  - delete: first returns a summary of its records, child relationships and the Apex that references it, with a confirmationToken;
+    repeat the call with that confirmationToken to delete it. Refused while Apex references the object.
+  Examples: Create Custom_Invoice__c with AutoNumber name field, Update sharing model to Private, Enable history tracking on Custom_Invoice__c`,
   inputSchema: {
     type: "object",
     properties: {
       operation: {
         type: "string",
-        enum: ["create", "update"],
-        description: "Whether to create a new object or update an existing one"
+        enum: ["create", "read", "update", "delete"],
+        description: "Whether to create a new object, or read, update or delete an existing one"
       },
       objectName: { type: "string", description: "API name of the object (e.g. 'Custom_Invoice__c')" },
       label: { type: "string", optional: true, description: "Label for the object" },
@@ -22,14 +29,22 @@ export const MANAGE_OBJECT: Tool = {
       nameFieldLabel: { type: "string", optional: true, description: "Label for the Name field" },
       nameFieldType: { type: "string", enum: ["Text", "AutoNumber"], optional: true, description: "Type of the Name field" },
       nameFieldFormat: { type: "string", optional: true, description: "Display format for AutoNumber name field" },
-      sharingModel: { type: "string", enum: ["ReadWrite", "Read", "Private", "ControlledByParent"], optional: true, description: "Sharing model for the object" }
+      sharingModel: { type: "string", enum: ["ReadWrite", "Read", "Private", "ControlledByParent"], optional: true, description: "Sharing model for the object" },
+      enableHistory: { type: "boolean", optional: true, description: "Allow field history tracking" },
+      enableReports: { type: "boolean", optional: true, description: "Allow reports on the object" },
+      enableActivities: { type: "boolean", optional: true, description: "Allow tasks and events on the object (cannot be turned off once on)" },
+      enableSearch: { type: "boolean", optional: true, description: "Include the object's records in search" },
+      dryRun: { type: "boolean", optional: true, description: "For delete: only show the summary, even when a confirmationToken is given" },
+      confirmationToken: { type: "string", optional: true, description: "Token returned by the delete summary; the object is only deleted if it matches" }
     },
     required: ["operation", "objectName"]
   }
 };
 
+export type ObjectOperation = 'create' | 'read' | 'update' | 'delete';
+
 export interface ManageObjectArgs {
-  operation: 'create' | 'update';
+  operation: ObjectOperation;
   objectName: string;
   label?: string;
   pluralLabel?: string;
@@ -38,12 +53,145 @@ export interface ManageObjectArgs {
   nameFieldType?: 'Text' | 'AutoNumber';
   nameFieldFormat?: string;
   sharingModel?: 'ReadWrite' | 'Read' | 'Private' | 'ControlledByParent';
+  enableHistory?: boolean;
+  enableReports?: boolean;
+  enableActivities?: boolean;
+  enableSearch?: boolean;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+type FeatureToggles = Pick<ManageObjectArgs, 'enableHistory' | 'enableReports' | 'enableActivities' | 'enableSearch'>;
+
+// Helper function to keep only the feature toggles that were passed
+function featureToggles(args: ManageObjectArgs): FeatureToggles {
+  const { enableHistory, enableReports, enableActivities, enableSearch } = args;
+  return {
+    ...(enableHistory !== undefined && { enableHistory }),
+    ...(enableReports !== undefined && { enableReports }),
+    ...(enableActivities !== undefined && { enableActivities }),
+    ...(enableSearch !== undefined && { enableSearch })
+  };
+}
+
+// Helper function to list the custom child relationships of an object with the number of related records
+async function summarizeChildren(conn: any, objectName: string): Promise<string[]> {
+  const describe = await describeObject(conn, objectName);
+  const children = (describe.childRelationships || [])
+    .filter(child => child.childSObject.endsWith('__c') || child.field.endsWith('__c'));
+
+  const lines: string[] = [];
+  for (const child of children) {
+    let count = '';
+    try {
+      const result = await conn.query(`SELECT COUNT() FROM ${child.childSObject} WHERE ${child.field} != null`);
+      count = `, ${result.totalSize} related records`;
+    } catch {
+      // Objects that cannot be counted are listed without a number
+    }
+    lines.push(`  - ${child.childSObject}.${child.field}${child.cascadeDelete ? ' (master-detail: deleted with the object' : ' (lookup: cleared'}${count})`);
+  }
+  return lines;
+}
+
+// Helper function to show what deleting an object affects and issue the token that confirms it
+async function previewObjectDelete(conn: any, objectName: string, label: string, references: MetadataReference[], referenceError?: string) {
+  const count = await conn.query(`SELECT COUNT() FROM ${objectName}`);
+  const children = await summarizeChildren(conn, objectName);
+  const token = issueConfirmationToken(conn.instanceUrl, { operation: 'delete', objectName });
+
+  const referencesText = referenceError
+    ? `References could not be checked (${referenceError}); Salesforce will still refuse the delete if Apex uses the object.`
+    : references.length > 0 ? `Referenced by:\n${formatReferences(references)}` : 'No components reference the object.';
+  return {
+    content: [{
+      type: 'text',
+      text: `DELETE PREVIEW - ${objectName} (${label}). Nothing was deleted.\n` +
+        `Records: ${count.totalSize}\n` +
+        (children.length > 0 ? `Child relationships:\n${children.join('\n')}\n` : 'No custom child relationships.\n') +
+        `${referencesText}\n` +
+        `The object, its fields, records, layouts and tabs are removed. Deleted objects can be restored with their data ` +
+        `from Deleted Objects in Setup for 15 days.\n\n` +
+        `To delete, call ${MANAGE_OBJECT.name} again with operation "delete" and the same objectName ` +
+        `plus confirmationToken: "${token}" (valid for 15 minutes, single use).`
+    }],
+    isError: false
+  };
 }
 
-export async function manageObject(conn: any, args: ManageObjectArgs) {
+// Helper function to delete a custom object once the preview has been confirmed
+async function deleteObject(conn: any, args: ManageObjectArgs) {
+  const { objectName } = args;
+  if (!objectName.endsWith('__c')) {
+    throw new Error(`Only custom objects can be deleted; ${objectName} is not a custom object`);
+  }
+  const current: MetadataInfo | undefined = await readMetadata(conn, 'CustomObject', objectName);
+  if (!current) {
+    return {
+      content: [{ type: 'text', text: `Custom object ${objectName} not found` }],
+      isError: true
+    };
+  }
+
+  let references: MetadataReference[] = [];
+  let referenceError: string | undefined;
+  try {
+    const objectId = await getObjectDurableId(conn, objectName);
+    references = objectId ? await findReferences(conn, objectId) : [];
+  } catch (error) {
+    referenceError = error instanceof Error ? error.message : String(error);
+  }
+  const blocking = references.filter(reference => APEX_REFERENCE_TYPES.includes(reference.type));
+  if (blocking.length > 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Cannot delete ${objectName} while this Apex references it:\n${formatReferences(blocking)}\nRemove the references first, then try again.`
+      }],
+      isError: true
+    };
+  }
+
+  if (!args.confirmationToken || args.dryRun) {
+    return previewObjectDelete(conn, objectName, current.label, references, referenceError);
+  }
+  const confirmation = consumeConfirmationToken(args.confirmationToken, conn.instanceUrl, { operation: 'delete', objectName });
+  if (!confirmation.isValid) {
+    return {
+      content: [{ type: 'text', text: confirmation.error! }],
+      isError: true
+    };
+  }
+
+  const result = await conn.metadata.delete('CustomObject', objectName);
+  invalidateDescribe(conn, objectName);
+  const saveError = getSaveError(result);
+  if (saveError) {
+    return {
+      content: [{ type: 'text', text: `Failed to delete custom object ${objectName}: ${saveError}` }],
+      isError: true
+    };
+  }
+  return {
+    content: [{ type: 'text', text: `Successfully deleted custom object ${objectName}. It can be restored from Deleted Objects for 15 days.` }],
+    isError: false
+  };
+}
+
+/**
+ * Creates, reads, updates or deletes a custom object through the Metadata API
+ * @param conn Connected jsforce Connection
+ * @param args Object settings and the operation to run
+ * @returns Tool response describing the outcome
+ */
+export async function handleManageObject(conn: any, args: ManageObjectArgs) {
   const { operation, objectName, label, pluralLabel, description, nameFieldLabel, nameFieldType, nameFieldFormat, sharingModel } = args;
 
   try {
+    if (operation === 'delete') {
+      return await deleteObject(conn, args);
+    }
+
     if (operation === 'create') {
       // Build metadata for creating a CustomObject
       const metadata: MetadataInfo = {
@@ -57,10 +205,12 @@ export async function manageObject(conn: any, args: ManageObjectArgs) {
         },
         deploymentStatus: 'Deployed',
         ...(sharingModel && { sharingModel }),
-        ...(description && { description })
+        ...(description && { description }),
+        ...featureToggles(args)
       };
 
       const result: any = await conn.metadata.create('CustomObject', metadata);
+      invalidateDescribe(conn, objectName);
 
       if (result && (Array.isArray(result) ? result[0].success : result.success)) {
         return {
@@ -74,9 +224,8 @@ export async function manageObject(conn: any, args: ManageObjectArgs) {
       };
     }
 
-    // Update path
-    const existing: any = await conn.metadata.read('CustomObject', [objectName]);
-    const current = Array.isArray(existing) ? existing[0] : existing;
+    // Read and update paths
+    const current: any = await readMetadata(conn, 'CustomObject', objectName);
 
     if (!current) {
       return {
@@ -85,12 +234,25 @@ export async function manageObject(conn: any, args: ManageObjectArgs) {
       };
     }
 
+    if (operation === 'read') {
+      return {
+        content: [{ type: 'text', text: `CustomObject metadata for ${objectName}:\n${JSON.stringify(current, null, 2)}` }],
+        isError: false
+      };
+    }
+
+    // Read results carry booleans as strings
+    if (args.enableActivities === false && String(current.enableActivities) === 'true') {
+      throw new Error(`Activities cannot be turned off again once they are enabled on ${objectName}`);
+    }
+
     const updateMetadata: MetadataInfo = {
       ...current,
       ...(label && { label }),
       ...(pluralLabel && { pluralLabel }),
       ...(description && { description }),
       ...(sharingModel && { sharingModel }),
+      ...featureToggles(args),
       nameField: {
         ...(current.nameField || {}),
         ...(nameFieldLabel && { label: nameFieldLabel }),
@@ -100,6 +262,7 @@ export async function manageObject(conn: any, args: ManageObjectArgs) {
     };
 
     const updateResult: any = await conn.metadata.update('CustomObject', updateMetadata);
+    invalidateDescribe(conn, objectName);
     if (updateResult && (Array.isArray(updateResult) ? updateResult[0].success : updateResult.success)) {
       return {
         content: [{ type: 'text', text: `Successfully updated custom object ${objectName}` }],
@@ -0,0 +1,189 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { RecordTypeMetadataInfo, RecordTypePicklistValues } from "../types/metadata.js";
+import { describeObject, invalidateDescribe } from "../utils/describeCache.js";
+import { asArray, getSaveError, readMetadata } from "../utils/metadata.js";
+
+export const MANAGE_RECORD_TYPE: Tool = {
+  name: "salesforce_manage_record_type",
+  description: `Create or update record types and the picklist values available to them.
+  - Create a record type with label, description and active flag
+  - Choose which values of each picklist the record type offers, and its default value
+  - Update labels, activate or deactivate, and change picklist value assignments of an existing record type
+  Examples: Create 'Partner' record type on Account offering only the 'Technology' and 'Media' Industry values;
+  deactivate the 'Legacy' record type on Case.
+  Opportunity, Case, Lead and Solution record types also need a businessProcess (sales, support, lead or solution process).
+  New record types still have to be assigned to profiles before users can pick them.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      operation: {
+        type: "string",
+        enum: ["create", "update"],
+        description: "Whether to create a new record type or update an existing one"
+      },
+      objectName: {
+        type: "string",
+        description: "API name of the object (e.g. 'Account', 'Custom_Invoice__c')"
+      },
+      recordTypeName: {
+        type: "string",
+        description: "Developer name of the record type (e.g. 'Partner_Account')"
+      },
+      label: { type: "string", optional: true, description: "Label for the record type" },
+      description: { type: "string", optional: true, description: "Description for the record type" },
+      active: { type: "boolean", optional: true, description: "Whether the record type is active (default true on create)" },
+      businessProcess: {
+        type: "string",
+        optional: true,
+        description: "Business process name, required for Opportunity, Case, Lead and Solution record types"
+      },
+      picklistValues: {
+        type: "array",
+        optional: true,
+        description: "Picklist values to offer, per picklist field. Picklists not listed keep their current assignment",
+        items: {
+          type: "object",
+          properties: {
+            field: { type: "string", description: "API name of the picklist field" },
+            values: { type: "array", items: { type: "string" }, description: "Values (API names) available to the record type" },
+            defaultValue: { type: "string", optional: true, description: "Value selected by default; must be one of values" }
+          },
+          required: ["field", "values"]
+        }
+      }
+    },
+    required: ["operation", "objectName", "recordTypeName"]
+  }
+};
+
+export interface RecordTypePicklistAssignment {
+  field: string;
+  values: string[];
+  defaultValue?: string;
+}
+
+export interface ManageRecordTypeArgs {
+  operation: 'create' | 'update';
+  objectName: string;
+  recordTypeName: string;
+  label?: string;
+  description?: string;
+  active?: boolean;
+  businessProcess?: string;
+  picklistValues?: RecordTypePicklistAssignment[];
+}
+
+// Objects whose record types are tied to a business process
+const BUSINESS_PROCESS_OBJECTS = ['opportunity', 'case', 'lead', 'solution'];
+
+// Helper function to check the requested picklist values against the object's describe
+async function buildPicklistValues(conn: any, objectName: string, assignments: RecordTypePicklistAssignment[]): Promise<RecordTypePicklistValues[]> {
+  const describe = await describeObject(conn, objectName);
+  const fieldsByName = new Map(describe.fields.map(field => [field.name.toLowerCase(), field]));
+
+  return assignments.map(assignment => {
+    const field = fieldsByName.get(assignment.field.toLowerCase());
+    if (!field || (field.type !== 'picklist' && field.type !== 'multipicklist')) {
+      throw new Error(`${assignment.field} is not a picklist field on ${objectName}`);
+    }
+    if (!Array.isArray(assignment.values) || assignment.values.length === 0) {
+      throw new Error(`${field.name}: values must list at least one picklist value`);
+    }
+
+    const available = field.picklistValues.map(entry => entry.value);
+    const unknown = assignment.values.filter(value => !available.includes(value));
+    if (unknown.length > 0) {
+      throw new Error(`${field.name}: ${unknown.join(', ')} ${unknown.length === 1 ? 'is not a value' : 'are not values'} of the picklist (available: ${available.join(', ')})`);
+    }
+    if (assignment.defaultValue && !assignment.values.includes(assignment.defaultValue)) {
+      throw new Error(`${field.name}: default value ${assignment.defaultValue} must be one of the assigned values`);
+    }
+
+    return {
+      picklist: field.name,
+      values: assignment.values.map(value => ({
+        fullName: value,
+        default: value === assignment.defaultValue
+      }))
+    };
+  });
+}
+
+/**
+ * Creates or updates a record type and its picklist value assignments through the Metadata API
+ * @param conn Connected jsforce Connection
+ * @param args Record type settings and picklist assignments
+ * @returns Tool response describing the outcome
+ */
+export async function handleManageRecordType(conn: any, args: ManageRecordTypeArgs) {
+  const { operation, objectName, recordTypeName, label, description, active, businessProcess, picklistValues } = args;
+  const fullName = `${objectName}.${recordTypeName}`;
+
+  try {
+    const assignedValues = picklistValues && picklistValues.length > 0
+      ? await buildPicklistValues(conn, objectName, picklistValues)
+      : undefined;
+
+    let metadata: RecordTypeMetadataInfo;
+    if (operation === 'create') {
+      if (BUSINESS_PROCESS_OBJECTS.includes(objectName.toLowerCase()) && !businessProcess) {
+        throw new Error(`${objectName} record types require a businessProcess`);
+      }
+      metadata = {
+        fullName,
+        label: label || recordTypeName.replace(/_/g, ' '),
+        active: active ?? true,
+        ...(description && { description }),
+        ...(businessProcess && { businessProcess }),
+        ...(assignedValues && { picklistValues: assignedValues })
+      };
+    } else {
+      const current: RecordTypeMetadataInfo | undefined = await readMetadata(conn, 'RecordType', fullName);
+      if (!current) {
+        throw new Error(`Record type ${recordTypeName} not found on ${objectName}`);
+      }
+
+      // Only the picklists named in the request are reassigned
+      const requested = new Set((assignedValues || []).map(entry => entry.picklist.toLowerCase()));
+      const keptValues = asArray(current.picklistValues).filter(entry => !requested.has(entry.picklist.toLowerCase()));
+      metadata = {
+        ...current,
+        ...(label && { label }),
+        ...(description !== undefined && { description }),
+        ...(active !== undefined && { active }),
+        ...(businessProcess && { businessProcess }),
+        picklistValues: [...keptValues, ...(assignedValues || [])]
+      };
+    }
+
+    const result = operation === 'create'
+      ? await conn.metadata.create('RecordType', metadata)
+      : await conn.metadata.update('RecordType', metadata);
+    invalidateDescribe(conn, objectName);
+
+    const saveError = getSaveError(result);
+    if (saveError) {
+      return {
+        content: [{ type: 'text', text: `Failed to ${operation} record type ${recordTypeName} on ${objectName}: ${saveError}` }],
+        isError: true
+      };
+    }
+
+    const assignedText = assignedValues
+      ? `\nPicklist values: ${assignedValues.map(entry => `${entry.picklist} (${entry.values.length})`).join(', ')}`
+      : '';
+    return {
+      content: [{
+        type: 'text',
+        text: `Successfully ${operation === 'create' ? 'created' : 'updated'} record type ${recordTypeName} on ${objectName}${assignedText}` +
+          (operation === 'create' ? '\nAssign it to profiles in Setup so users can create records with it.' : '')
+      }],
+      isError: false
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error managing record type: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true
+    };
+  }
+}
@@ -0,0 +1,339 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ValidationRuleMetadataInfo } from "../types/metadata.js";
+import { describeObject } from "../utils/describeCache.js";
+import { asArray, getSaveError, readMetadata } from "../utils/metadata.js";
+import { logger } from "../utils/logger.js";
+
+export const MANAGE_VALIDATION_RULE: Tool = {
+  name: "salesforce_manage_validation_rule",
+  description: `List, read, create, update, activate, deactivate and test validation rules.
+  - list: validation rules of an object with their state and error message
+  - read: the full rule, including its formula and where the error is shown
+  - create / update: formula (true = the record is rejected), error message, error location (a field, or the top of the page) and description
+  - activate / deactivate: switch a rule on or off
+  - test: evaluate a formula, or an existing rule's formula, against existing records (sampleRecordIds) and/or
+    sample field values (sampleRecords) without saving anything. The formula runs in anonymous Apex that is rolled back;
+    this needs API version 61.0 or later.
+  Examples: Require Phone when Type is 'Customer': formula "AND(ISPICKVAL(Type, 'Customer'), ISBLANK(Phone))";
+  test that formula against {"Type": "Customer", "Phone": null} before creating the rule.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      operation: {
+        type: "string",
+        enum: ["list", "read", "create", "update", "activate", "deactivate", "test"],
+        description: "What to do"
+      },
+      objectName: {
+        type: "string",
+        description: "API name of the object (e.g. 'Account', 'Custom_Invoice__c')"
+      },
+      ruleName: {
+        type: "string",
+        optional: true,
+        description: "API name of the validation rule (e.g. 'Phone_Required_For_Customers'); required except for list and testing a formula"
+      },
+      formula: {
+        type: "string",
+        optional: true,
+        description: "Error condition formula; the record is rejected when it evaluates to true"
+      },
+      errorMessage: {
+        type: "string",
+        optional: true,
+        description: "Message shown when the rule rejects a record (required for create)"
+      },
+      errorDisplayField: {
+        type: "string",
+        optional: true,
+        description: "Field to show the error next to; leave out to show it at the top of the page"
+      },
+      description: { type: "string", optional: true, description: "Description of the rule" },
+      active: { type: "boolean", optional: true, description: "Whether the rule is active (default true on create)" },
+      sampleRecordIds: {
+        type: "array",
+        items: { type: "string" },
+        optional: true,
+        description: "For test: Ids of existing records to evaluate the formula against"
+      },
+      sampleRecords: {
+        type: "array",
+        items: { type: "object" },
+        optional: true,
+        description: "For test: field values of made-up records to evaluate the formula against"
+      }
+    },
+    required: ["operation", "objectName"]
+  }
+};
+
+export type ValidationRuleOperation = 'list' | 'read' | 'create' | 'update' | 'activate' | 'deactivate' | 'test';
+
+export interface ManageValidationRuleArgs {
+  operation: ValidationRuleOperation;
+  objectName: string;
+  ruleName?: string;
+  formula?: string;
+  errorMessage?: string;
+  errorDisplayField?: string;
+  description?: string;
+  active?: boolean;
+  sampleRecordIds?: string[];
+  sampleRecords?: Record<string, any>[];
+}
+
+// Metadata API reads accept at most 10 components per call
+const READ_BATCH_SIZE = 10;
+const RESULT_MARKER = '@@FORMULA_TEST@@';
+const ID_PATTERN = /^[a-zA-Z0-9]{15}([a-zA-Z0-9]{3})?$/;
+const OPERATIONS: ValidationRuleOperation[] = ['list', 'read', 'create', 'update', 'activate', 'deactivate', 'test'];
+
+// Helper function to quote a value as an Apex string literal
+function apexString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, '\\n')}'`;
+}
+
+// Helper function to build the anonymous Apex that evaluates a formula and reports back through an exception
+function buildFormulaTestApex(objectName: string, formula: string, recordIds: string[], records: Record<string, any>[]): string {
+  const samples = records.map(record => apexString(JSON.stringify({ attributes: { type: objectName }, ...record })));
+  return `
+public class FormulaTestResult extends Exception {}
+Savepoint sp = Database.setSavepoint();
+Map<String, Object> output = new Map<String, Object>();
+try {
+    FormulaEval.FormulaInstance rule = Formula.builder()
+        .withType(Type.forName(${apexString(objectName)}))
+        .withReturnType(FormulaEval.FormulaReturnType.BOOLEAN)
+        .withFormula(${apexString(formula)})
+        .build();
+    List<SObject> records = new List<SObject>();
+    List<String> labels = new List<String>();
+    Set<Id> recordIds = new Set<Id>{${recordIds.map(apexString).join(', ')}};
+    if (!recordIds.isEmpty()) {
+        Set<String> fields = new Set<String>{'id'};
+        for (String field : rule.getReferencedFields()) {
+            fields.add(field.toLowerCase());
+        }
+        for (SObject record : Database.query('SELECT ' + String.join(new List<String>(fields), ', ') + ' FROM ${objectName} WHERE Id IN :recordIds')) {
+            records.add(record);
+            labels.add(record.Id);
+        }
+    }
+    List<String> samples = new List<String>{${samples.join(', ')}};
+    for (Integer i = 0; i < samples.size(); i++) {
+        records.add((SObject) JSON.deserialize(samples[i], Type.forName(${apexString(objectName)})));
+        labels.add('sample:' + i);
+    }
+    List<Map<String, Object>> results = new List<Map<String, Object>>();
+    for (Integer i = 0; i < records.size(); i++) {
+        Map<String, Object> result = new Map<String, Object>{ 'label' => labels[i] };
+        try {
+            result.put('fires', (Boolean) rule.evaluate(records[i]));
+        } catch (Exception e) {
+            result.put('error', e.getMessage());
+        }
+        results.add(result);
+    }
+    output.put('results', results);
+} catch (Exception e) {
+    output.put('formulaError', e.getMessage());
+}
+Database.rollback(sp);
+throw new FormulaTestResult(${apexString(RESULT_MARKER)} + JSON.serialize(output));
+`;
+}
+
+// Helper function to evaluate a formula against sample records and format the outcome
+async function testFormula(conn: any, args: ManageValidationRuleArgs, formula: string, errorMessage?: string): Promise<string> {
+  const recordIds = args.sampleRecordIds || [];
+  const records = args.sampleRecords || [];
+  if (recordIds.length === 0 && records.length === 0) {
+    throw new Error('test needs sampleRecordIds and/or sampleRecords to evaluate the formula against');
+  }
+  const invalidIds = recordIds.filter(id => !ID_PATTERN.test(id));
+  if (invalidIds.length > 0) {
+    throw new Error(`Invalid record Ids: ${invalidIds.join(', ')}`);
+  }
+
+  const result = await conn.tooling.executeAnonymous(buildFormulaTestApex(args.objectName, formula, recordIds, records));
+  if (!result.compiled) {
+    throw new Error(`The formula test could not be compiled (line ${result.line}): ${result.compileProblem}. ` +
+      'Formula evaluation in Apex requires API version 61.0 or later.');
+  }
+  const message: string = result.exceptionMessage || '';
+  const markerIndex = message.indexOf(RESULT_MARKER);
+  if (markerIndex === -1) {
+    throw new Error(`The formula test failed: ${message || 'no result was returned'}`);
+  }
+  const output = JSON.parse(message.slice(markerIndex + RESULT_MARKER.length));
+  if (output.formulaError) {
+    throw new Error(`Invalid formula: ${output.formulaError}`);
+  }
+
+  const lines = [`Formula: ${formula}`, 'Results (a rule that fires rejects the record; nothing was saved):'];
+  const found = new Set<string>();
+  for (const entry of output.results as Array<{ label: string; fires?: boolean; error?: string }>) {
+    const label = entry.label.startsWith('sample:')
+      ? `Sample ${Number(entry.label.slice('sample:'.length)) + 1}`
+      : `Record ${entry.label}`;
+    if (!entry.label.startsWith('sample:')) found.add(entry.label.slice(0, 15));
+    if (entry.error) {
+      lines.push(`- ${label}: could not be evaluated: ${entry.error}`);
+    } else {
+      lines.push(`- ${label}: ${entry.fires ? `fires${errorMessage ? ` ("${errorMessage}")` : ''}` : 'passes'}`);
+    }
+  }
+  recordIds.filter(id => !found.has(id.slice(0, 15))).forEach(id => lines.push(`- Record ${id}: not found`));
+  return lines.join('\n');
+}
+
+// Helper function to format a rule for reading
+function formatRule(rule: ValidationRuleMetadataInfo): string {
+  const active = rule.active === true || String(rule.active) === 'true';
+  return [
+    `Validation Rule: ${rule.fullName.split('.').slice(1).join('.')} (${active ? 'active' : 'inactive'})`,
+    ...(rule.description ? [`Description: ${rule.description}`] : []),
+    `Error Condition Formula: ${rule.errorConditionFormula}`,
+    `Error Message: ${rule.errorMessage}`,
+    `Error Location: ${rule.errorDisplayField ? `field ${rule.errorDisplayField}` : 'top of page'}`
+  ].join('\n');
+}
+
+/**
+ * Lists, reads, creates, updates, activates, deactivates or tests validation rules through the Metadata API
+ * @param conn Connected jsforce Connection
+ * @param args Operation, object, rule and rule settings
+ * @returns Tool response describing the rules or the outcome of the operation
+ */
+export async function handleManageValidationRule(conn: any, args: ManageValidationRuleArgs) {
+  const { operation, objectName, ruleName, formula, errorMessage, errorDisplayField, description, active } = args;
+
+  try {
+    if (!OPERATIONS.includes(operation)) {
+      throw new Error(`Unsupported operation: ${operation}`);
+    }
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(objectName)) {
+      throw new Error(`Invalid object name: ${objectName}`);
+    }
+
+    if (operation === 'list') {
+      const prefix = `${objectName.toLowerCase()}.`;
+      const names = asArray<any>(await conn.metadata.list([{ type: 'ValidationRule' }]))
+        .map(entry => entry.fullName as string)
+        .filter(fullName => fullName.toLowerCase().startsWith(prefix))
+        .sort();
+      if (names.length === 0) {
+        return {
+          content: [{ type: 'text', text: `No validation rules found on ${objectName}` }],
+          isError: false
+        };
+      }
+
+      const rules: ValidationRuleMetadataInfo[] = [];
+      for (let i = 0; i < names.length; i += READ_BATCH_SIZE) {
+        rules.push(...asArray<ValidationRuleMetadataInfo>(await conn.metadata.read('ValidationRule', names.slice(i, i + READ_BATCH_SIZE))));
+      }
+      const lines = rules.filter(rule => rule.fullName).map(rule => {
+        const isActive = rule.active === true || String(rule.active) === 'true';
+        return `  - ${rule.fullName.split('.').slice(1).join('.')} [${isActive ? 'active' : 'inactive'}]: ${rule.errorMessage}`;
+      });
+      return {
+        content: [{ type: 'text', text: `Validation rules on ${objectName}:\n${lines.join('\n')}` }],
+        isError: false
+      };
+    }
+
+    if (operation === 'test' && formula) {
+      return {
+        content: [{ type: 'text', text: await testFormula(conn, args, formula, errorMessage) }],
+        isError: false
+      };
+    }
+
+    if (!ruleName) {
+      throw new Error(`ruleName is required for ${operation}`);
+    }
+    const fullName = `${objectName}.${ruleName}`;
+
+    let metadata: ValidationRuleMetadataInfo;
+    if (operation === 'create') {
+      if (!formula || !errorMessage) {
+        throw new Error('formula and errorMessage are required to create a validation rule');
+      }
+      metadata = {
+        fullName,
+        active: active ?? true,
+        errorConditionFormula: formula,
+        errorMessage,
+        ...(errorDisplayField && { errorDisplayField }),
+        ...(description && { description })
+      };
+    } else {
+      const current: ValidationRuleMetadataInfo | undefined = await readMetadata(conn, 'ValidationRule', fullName);
+      if (!current) {
+        throw new Error(`Validation rule ${ruleName} not found on ${objectName}. Use operation "list" to see its rules.`);
+      }
+
+      if (operation === 'read') {
+        return {
+          content: [{ type: 'text', text: formatRule(current) }],
+          isError: false
+        };
+      }
+      if (operation === 'test') {
+        return {
+          content: [{ type: 'text', text: await testFormula(conn, args, current.errorConditionFormula, current.errorMessage) }],
+          isError: false
+        };
+      }
+
+      metadata = {
+        ...current,
+        ...(operation === 'activate' && { active: true }),
+        ...(operation === 'deactivate' && { active: false }),
+        ...(operation === 'update' && {
+          ...(formula && { errorConditionFormula: formula }),
+          ...(errorMessage && { errorMessage }),
+          ...(errorDisplayField !== undefined && { errorDisplayField }),
+          ...(description !== undefined && { description }),
+          ...(active !== undefined && { active })
+        })
+      };
+      // An empty display field moves the error back to the top of the page
+      if (!metadata.errorDisplayField) delete metadata.errorDisplayField;
+    }
+
+    if (metadata.errorDisplayField) {
+      const describe = await describeObject(conn, objectName);
+      const field = describe.fields.find(candidate => candidate.name.toLowerCase() === metadata.errorDisplayField!.toLowerCase());
+      if (!field) {
+        throw new Error(`errorDisplayField ${metadata.errorDisplayField} is not a field on ${objectName}`);
+      }
+      metadata.errorDisplayField = field.name;
+    }
+
+    logger.info(`${operation} validation rule ${fullName}`);
+    const result = operation === 'create'
+      ? await conn.metadata.create('ValidationRule', metadata)
+      : await conn.metadata.update('ValidationRule', metadata);
+
+    const saveError = getSaveError(result);
+    if (saveError) {
+      return {
+        content: [{ type: 'text', text: `Failed to ${operation} validation rule ${ruleName} on ${objectName}: ${saveError}` }],
+        isError: true
+      };
+    }
+
+    const pastTense: Record<string, string> = { create: 'created', update: 'updated', activate: 'activated', deactivate: 'deactivated' };
+    return {
+      content: [{ type: 'text', text: `Successfully ${pastTense[operation]} validation rule ${ruleName} on ${objectName}` }],
+      isError: false
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error managing validation rule: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true
+    };
+  }
+}
@@ -1,4 +1,8 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { getRuntimeConfig } from "../utils/config.js";
+import { parseSoql, ParsedSoqlQuery } from "../utils/soqlParser.js";
+import { runBulkQueryJob, isBulkQueryCursor } from "../utils/bulkApi.js";
+import { OutputFormat, OUTPUT_FORMAT_PROPERTY, getFieldValue, toPlainRecord, toCsv, toMarkdownTable, structuredResponse } from "../utils/outputFormat.js";
 
 export const QUERY_RECORDS: Tool = {
   name: "salesforce_query_records",
@@ -27,18 +31,40 @@ Examples:
 Note: When using relationship fields:
 - Use dot notation for parent relationships (e.g., "Account.Name")
 - Use subqueries in parentheses for child relationships (e.g., "(SELECT Id FROM Contacts)")
-- Custom relationship fields end in "__r" (e.g., "CustomObject__r.Name")`,
+- Custom relationship fields end in "__r" (e.g., "CustomObject__r.Name")
+- Child records from subqueries are listed under each parent with their selected fields (up to maxChildRecords per parent)
+
+Raw SOQL mode:
+- Pass a complete query in soql instead of objectName/fields to use OFFSET, FOR VIEW, WITH SECURITY_ENFORCED, TYPEOF, USING SCOPE or semi-joins
+- The query is checked for syntax errors (reported with line and column) before it is sent to the org
+- Example: soql: "SELECT Id, Name FROM Account USING SCOPE mine WHERE Id IN (SELECT AccountId FROM Contact) ORDER BY Name LIMIT 10 OFFSET 20"
+
+Pagination:
+- Results are fetched in batches until maxRecords is reached (defaults to the configured cap)
+- If more rows remain, the response says the results were truncated and includes a cursor
+- To fetch the next page, call again with the same objectName and fields (or soql) plus that cursor
+
+Bulk API:
+- When maxRecords is above the configured bulk query threshold (or useBulk is true) the query runs as a Bulk API 2.0 job, which does not count each batch against API limits
+- Bulk queries return every value as text and cannot use child subqueries, TYPEOF, aggregate functions, GROUP BY or OFFSET`,
   inputSchema: {
     type: "object",
     properties: {
       objectName: {
         type: "string",
-        description: "API name of the object to query"
+        description: "API name of the object to query (required unless soql is given)",
+        optional: true
       },
       fields: {
         type: "array",
         items: { type: "string" },
-        description: "List of fields to retrieve, including relationship fields"
+        description: "List of fields to retrieve, including relationship fields (required unless soql is given)",
+        optional: true
+      },
+      soql: {
+        type: "string",
+        description: "Complete SOQL query to run as-is instead of building one from objectName, fields and clauses",
+        optional: true
       },
       whereClause: {
         type: "string",
@@ -54,18 +80,97 @@ Note: When using relationship fields:
         type: "number",
         description: "Maximum number of records to return",
         optional: true
-      }
+      },
+      maxRecords: {
+        type: "number",
+        description: "Maximum number of records to fetch in this call before returning a cursor (at least 200 unless useBulk is true; use limit for fewer rows)",
+        optional: true
+      },
+      maxChildRecords: {
+        type: "number",
+        description: "Maximum number of child records to show per parent for each subquery (defaults to 50)",
+        optional: true
+      },
+      cursor: {
+        type: "string",
+        description: "Continuation cursor from a previous truncated response; whereClause, orderBy and limit are ignored when set",
+        optional: true
+      },
+      useBulk: {
+        type: "boolean",
+        description: "true forces a Bulk API 2.0 query job, false forces the REST API; by default Bulk API is used when maxRecords is above the configured threshold",
+        optional: true
+      },
+      outputFormat: OUTPUT_FORMAT_PROPERTY
     },
-    required: ["objectName", "fields"]
+    required: []
   }
 };
 
 export interface QueryArgs {
-  objectName: string;
-  fields: string[];
+  objectName?: string;
+  fields?: string[];
+  soql?: string;
   whereClause?: string;
   orderBy?: string;
   limit?: number;
+  maxRecords?: number;
+  maxChildRecords?: number;
+  cursor?: string;
+  useBulk?: boolean;
+  outputFormat?: OutputFormat;
+}
+
+const DEFAULT_MAX_CHILD_RECORDS = 50;
+
+interface ChildSelection {
+  relationshipName: string;
+  fields: string[];
+}
+
+// Salesforce accepts query batch sizes between 200 and 2000 records
+const MIN_BATCH_SIZE = 200;
+const MAX_BATCH_SIZE = 2000;
+
+/**
+ * Fetches query batches with queryMore until the results are exhausted or the next
+ * batch would exceed maxRecords. Whole batches are kept so the cursor stays exact,
+ * which is why maxRecords has to be at least the minimum batch size.
+ */
+async function fetchRecords(conn: any, soql: string, cursor: string | undefined, maxRecords: number) {
+  const batchSize = Math.min(maxRecords, MAX_BATCH_SIZE);
+  const options = { headers: { 'Sforce-Query-Options': `batchSize=${batchSize}` } };
+
+  // Accept either the bare locator or a full nextRecordsUrl
+  let result = cursor
+    ? await conn.queryMore(cursor.split('/').pop(), options)
+    : await conn.query(soql, options);
+  const records: any[] = [...result.records];
+
+  while (!result.done && records.length + batchSize <= maxRecords) {
+    result = await conn.queryMore(result.nextRecordsUrl.split('/').pop(), options);
+    records.push(...result.records);
+  }
+
+  return {
+    records,
+    totalSize: result.totalSize as number,
+    nextCursor: result.done ? undefined : result.nextRecordsUrl as string
+  };
+}
+
+// Helper function to explain why a query cannot run as a Bulk API query job
+function getBulkQueryBlocker(soql: string): string | null {
+  // Unparsed queries are left to the Bulk API to accept or reject
+  const parsed = parseSoql(soql);
+  if (!parsed.isValid) return null;
+  const { selectItems, clauses } = parsed.query!;
+
+  if (selectItems.some(item => item.kind === 'subquery')) return 'child subqueries';
+  if (selectItems.some(item => item.kind === 'typeof')) return 'TYPEOF';
+  const clause = clauses.find(name => name === 'GROUP BY' || name === 'OFFSET');
+  if (clause) return clause;
+  return selectItems.some(item => item.aggregate) ? 'aggregate functions' : null;
 }
 
 // Helper function to validate relationship field syntax
@@ -102,6 +207,65 @@ function validateRelationshipFields(fields: string[]): { isValid: boolean; error
   return { isValid: true };
 }
 
+// Helper function to map a parsed raw query onto the field list used for formatting
+function toDisplayFields(query: ParsedSoqlQuery): string[] {
+  return query.selectItems.flatMap(item => {
+    switch (item.kind) {
+      case 'subquery':
+        return [item.text];
+      case 'typeof':
+        return item.typeofFields || [];
+      default:
+        return [item.resultKey];
+    }
+  });
+}
+
+// Helper function to read the relationship name and selected fields of a child subquery
+function parseChildSubquery(field: string): ChildSelection | null {
+  const parsed = parseSoql(field.trim().replace(/^\(/, '').replace(/\)$/, ''));
+  if (!parsed.isValid) return null;
+  return {
+    relationshipName: parsed.query!.objectName,
+    fields: toDisplayFields(parsed.query!)
+  };
+}
+
+// Child sets larger than one batch come back with done=false; fetch the rest up to the cap
+async function loadChildRecords(conn: any, records: any[], children: ChildSelection[], maxChildRecords: number) {
+  for (const record of records) {
+    for (const child of children) {
+      const childSet = record[child.relationshipName];
+      while (childSet && !childSet.done && childSet.nextRecordsUrl && childSet.records.length < maxChildRecords) {
+        const more = await conn.queryMore(childSet.nextRecordsUrl.split('/').pop());
+        childSet.records.push(...more.records);
+        childSet.done = more.done;
+        childSet.nextRecordsUrl = more.nextRecordsUrl;
+      }
+    }
+  }
+}
+
+// Helper function to format the child records of one parent, indented under it
+function formatChildRecords(record: any, child: ChildSelection, maxChildRecords: number): string {
+  const childSet = record[child.relationshipName];
+  const childRecords: any[] = childSet?.records || [];
+  const totalSize: number = childSet?.totalSize ?? childRecords.length;
+
+  if (childRecords.length === 0) {
+    return `    ${child.relationshipName}: [0 records]`;
+  }
+
+  const shown = childRecords.slice(0, maxChildRecords);
+  const countText = shown.length === totalSize ? `${totalSize} records` : `showing ${shown.length} of ${totalSize} records`;
+  const childText = shown.map((childRecord, index) => {
+    const fieldText = child.fields.map(field => '        ' + formatRelationshipResults(childRecord, field)).join('\n');
+    return `      ${child.relationshipName} ${index + 1}:\n${fieldText}`;
+  }).join('\n');
+
+  return `    ${child.relationshipName} (${countText}):\n${childText}`;
+}
+
 // Helper function to format relationship query results
 function formatRelationshipResults(record: any, field: string, prefix = ''): string {
   if (field.includes('.')) {
@@ -122,48 +286,140 @@ function formatRelationshipResults(record: any, field: string, prefix = ''): str
 }
 
 export async function handleQueryRecords(conn: any, args: QueryArgs) {
-  const { objectName, fields, whereClause, orderBy, limit } = args;
+  const { whereClause, orderBy, limit, cursor } = args;
+  const maxRecords = args.maxRecords && args.maxRecords > 0 ? args.maxRecords : getRuntimeConfig().maxQueryRecords;
 
   try {
-    // Validate relationship field syntax
-    const validation = validateRelationshipFields(fields);
-    if (!validation.isValid) {
-      return {
-        content: [{
-          type: "text",
-          text: validation.error!
-        }],
-        isError: true,
-      };
+    let soql: string;
+    let fields: string[];
+
+    if (args.soql) {
+      // Raw SOQL: validate locally so syntax errors are reported with positions
+      const parsed = parseSoql(args.soql);
+      if (!parsed.isValid) {
+        return {
+          content: [{
+            type: "text",
+            text: parsed.error!
+          }],
+          isError: true,
+        };
+      }
+      soql = args.soql.trim();
+      fields = toDisplayFields(parsed.query!);
+    } else {
+      if (!args.objectName || !args.fields) {
+        throw new Error('Either soql or objectName and fields are required');
+      }
+      fields = args.fields;
+
+      // Validate relationship field syntax
+      const validation = validateRelationshipFields(fields);
+      if (!validation.isValid) {
+        return {
+          content: [{
+            type: "text",
+            text: validation.error!
+          }],
+          isError: true,
+        };
+      }
+
+      // Construct SOQL query
+      soql = `SELECT ${fields.join(', ')} FROM ${args.objectName}`;
+      if (whereClause) soql += ` WHERE ${whereClause}`;
+      if (orderBy) soql += ` ORDER BY ${orderBy}`;
+      if (limit) soql += ` LIMIT ${limit}`;
+    }
+
+    let useBulk = cursor ? isBulkQueryCursor(cursor) : args.useBulk ?? maxRecords > getRuntimeConfig().bulkQueryThreshold;
+    const bulkBlocker = useBulk && !cursor ? getBulkQueryBlocker(soql) : null;
+    if (bulkBlocker) {
+      if (args.useBulk) {
+        throw new Error(`Bulk API queries do not support ${bulkBlocker}; set useBulk to false to run this query through the REST API`);
+      }
+      useBulk = false;
     }
 
-    // Construct SOQL query
-    let soql = `SELECT ${fields.join(', ')} FROM ${objectName}`;
-    if (whereClause) soql += ` WHERE ${whereClause}`;
-    if (orderBy) soql += ` ORDER BY ${orderBy}`;
-    if (limit) soql += ` LIMIT ${limit}`;
+    if (!useBulk && maxRecords < MIN_BATCH_SIZE) {
+      throw new Error(`maxRecords must be at least ${MIN_BATCH_SIZE} for REST API queries, which return records in batches of ${MIN_BATCH_SIZE} or more. ` +
+        `Use limit (or a LIMIT clause) to return fewer rows, or set useBulk to true`);
+    }
 
-    const result = await conn.query(soql);
+    const result = useBulk
+      ? await runBulkQueryJob(conn, soql, cursor, maxRecords)
+      : await fetchRecords(conn, soql, cursor, maxRecords);
+
+    // Resolve child subqueries once so every record renders its children the same way
+    const maxChildRecords = args.maxChildRecords && args.maxChildRecords > 0 ? args.maxChildRecords : DEFAULT_MAX_CHILD_RECORDS;
+    const childSelections = new Map<string, ChildSelection | null>();
+    fields.filter(field => /^\(\s*SELECT\b/i.test(field))
+      .forEach(field => childSelections.set(field, parseChildSubquery(field)));
+    const children = [...childSelections.values()].filter((child): child is ChildSelection => child !== null);
+    await loadChildRecords(conn, result.records, children, maxChildRecords);
     
+    const truncationNote = result.nextCursor
+      ? `Results truncated at maxRecords=${maxRecords}; more records are available.\n` +
+        `To fetch the next page, call salesforce_query_records again with the same ${args.soql ? 'soql' : 'objectName and fields'} and cursor: "${result.nextCursor}"`
+      : '';
+
+    const outputFormat = args.outputFormat || 'text';
+    if (outputFormat === 'json') {
+      return structuredResponse({
+        totalSize: result.totalSize,
+        returned: result.records.length,
+        truncated: Boolean(result.nextCursor),
+        nextCursor: result.nextCursor ?? null,
+        records: result.records.map(toPlainRecord)
+      });
+    }
+
+    if (outputFormat === 'csv' || outputFormat === 'markdown') {
+      // Child subqueries become a single column holding the child record count
+      const columns = fields.map(field => childSelections.get(field)?.relationshipName ?? field);
+      const rows = result.records.map((record: any) => fields.map(field => {
+        const child = childSelections.get(field);
+        return child ? record[child.relationshipName] ?? null : getFieldValue(record, field);
+      }));
+      const table = outputFormat === 'csv'
+        ? toCsv(columns, rows)
+        : `Query returned ${result.records.length} records:\n\n${toMarkdownTable(columns, rows)}`;
+
+      // Keep CSV paste-ready by putting the truncation notice in its own block
+      return {
+        content: [
+          { type: "text", text: table },
+          ...(truncationNote ? [{ type: "text", text: truncationNote }] : [])
+        ],
+        isError: false,
+      };
+    }
+
     // Format the output
     const formattedRecords = result.records.map((record: any, index: number) => {
       const recordStr = fields.map(field => {
         // Handle special case for subqueries (child relationships)
-        if (field.startsWith('(SELECT')) {
-          const relationshipName = field.match(/FROM\s+(\w+)/)?.[1];
-          if (!relationshipName) return `    ${field}: Invalid subquery format`;
-          const childRecords = record[relationshipName];
-          return `    ${relationshipName}: [${childRecords?.length || 0} records]`;
+        if (childSelections.has(field)) {
+          const child = childSelections.get(field);
+          if (!child) return `    ${field}: Invalid subquery format`;
+          return formatChildRecords(record, child, maxChildRecords);
         }
         return '    ' + formatRelationshipResults(record, field);
       }).join('\n');
       return `Record ${index + 1}:\n${recordStr}`;
     }).join('\n\n');
 
+    let responseText = `Query returned ${result.records.length} records`;
+    responseText += result.nextCursor ? ` (truncated, ${result.totalSize} total):` : ':';
+    responseText += `\n\n${formattedRecords}`;
+    if (truncationNote) {
+      responseText += `\n\n${truncationNote}`;
+    }
+
     return {
       content: [{
         type: "text",
-        text: `Query returned ${result.records.length} records:\n\n${formattedRecords}`
+        text: responseText
       }],
       isError: false,
     };
@@ -1,4 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
 
 export const READ_APEX: Tool = {
   name: "salesforce_read_apex",
@@ -84,7 +85,7 @@ export async function handleReadApex(conn: any, args: ReadApexArgs) {
   try {
     // If a specific class name is provided, get the full class body
     if (args.className) {
-      console.error(`Reading Apex class: ${args.className}`);
+      logger.info(`Reading Apex class: ${args.className}`);
       
       // Query the ApexClass object to get the class body
       const result = await conn.query(`
@@ -125,7 +126,7 @@ export async function handleReadApex(conn: any, args: ReadApexArgs) {
     } 
     // Otherwise, list classes matching the pattern
     else {
-      console.error(`Listing Apex classes${args.namePattern ? ` matching: ${args.namePattern}` : ''}`);
+      logger.info(`Listing Apex classes${args.namePattern ? ` matching: ${args.namePattern}` : ''}`);
       
       // Build the query
       let query = `
@@ -176,7 +177,7 @@ export async function handleReadApex(conn: any, args: ReadApexArgs) {
       };
     }
   } catch (error) {
-    console.error('Error reading Apex classes:', error);
+    logger.error('Error reading Apex classes:', error);
     return {
       content: [{ 
         type: "text", 
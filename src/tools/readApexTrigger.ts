@@ -1,4 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
 
 export const READ_APEX_TRIGGER: Tool = {
   name: "salesforce_read_apex_trigger",
@@ -84,7 +85,7 @@ export async function handleReadApexTrigger(conn: any, args: ReadApexTriggerArgs
   try {
     // If a specific trigger name is provided, get the full trigger body
     if (args.triggerName) {
-      console.error(`Reading Apex trigger: ${args.triggerName}`);
+      logger.info(`Reading Apex trigger: ${args.triggerName}`);
       
       // Query the ApexTrigger object to get the trigger body
       const result = await conn.query(`
@@ -125,7 +126,7 @@ export async function handleReadApexTrigger(conn: any, args: ReadApexTriggerArgs
     } 
     // Otherwise, list triggers matching the pattern
     else {
-      console.error(`Listing Apex triggers${args.namePattern ? ` matching: ${args.namePattern}` : ''}`);
+      logger.info(`Listing Apex triggers${args.namePattern ? ` matching: ${args.namePattern}` : ''}`);
       
       // Build the query
       let query = `
@@ -176,7 +177,7 @@ export async function handleReadApexTrigger(conn: any, args: ReadApexTriggerArgs
       };
     }
   } catch (error) {
-    console.error('Error reading Apex triggers:', error);
+    logger.error('Error reading Apex triggers:', error);
     return {
       content: [{ 
         type: "text", 
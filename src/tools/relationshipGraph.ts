@@ -0,0 +1,315 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { SalesforceDescribeResponse } from "../types/salesforce.js";
+import { describeObject, describeGlobal } from "../utils/describeCache.js";
+import { logger } from "../utils/logger.js";
+
+export const RELATIONSHIP_GRAPH: Tool = {
+  name: "salesforce_relationship_graph",
+  description: `Map how Salesforce objects are connected and export the data model as an entity relationship diagram.
+
+Starting from one or more objects, follows lookup and master-detail fields (parents) and child relationships (children)
+up to the given depth and returns the graph as:
+- mermaid: Mermaid erDiagram, ready to paste into Markdown
+- dot: Graphviz DOT
+- json: objects and a JSON adjacency list of relationships
+
+Examples:
+1. Account and everything directly related: objectNames: ["Account"]
+2. Two levels of parents only: objectNames: ["OpportunityLineItem"], depth: 2, direction: "parents"
+3. Custom data model as DOT: objectNames: ["Project__c", "Task__c"], format: "dot"
+
+Audit lookups (CreatedBy, LastModifiedBy) and system objects (History, Share, Feed and ChangeEvent objects)
+are left out unless includeSystem is true. Master-detail relationships are marked as such.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      objectNames: {
+        type: "array",
+        items: { type: "string" },
+        description: "API names of the objects to start from"
+      },
+      depth: {
+        type: "number",
+        description: "How many relationship hops to follow from the starting objects (1-3, default 1)",
+        optional: true
+      },
+      direction: {
+        type: "string",
+        enum: ["parents", "children", "both"],
+        description: "Follow lookups to parent objects, child relationships, or both (default both)",
+        optional: true
+      },
+      format: {
+        type: "string",
+        enum: ["mermaid", "dot", "json"],
+        description: "Output format (default mermaid)",
+        optional: true
+      },
+      includeSystem: {
+        type: "boolean",
+        description: "Include audit lookups and History/Share/Feed/ChangeEvent objects",
+        optional: true
+      },
+      maxObjects: {
+        type: "number",
+        description: "Stop adding objects to the graph beyond this many (default 50)",
+        optional: true
+      }
+    },
+    required: ["objectNames"]
+  }
+};
+
+export type GraphFormat = 'mermaid' | 'dot' | 'json';
+export type GraphDirection = 'parents' | 'children' | 'both';
+
+export interface RelationshipGraphArgs {
+  objectNames: string[];
+  depth?: number;
+  direction?: GraphDirection;
+  format?: GraphFormat;
+  includeSystem?: boolean;
+  maxObjects?: number;
+}
+
+interface GraphNode {
+  name: string;
+  label?: string;
+  custom?: boolean;
+  /** Hops from the nearest starting object */
+  level: number;
+  /** Whether the object's own relationships were followed */
+  expanded: boolean;
+  error?: string;
+}
+
+interface GraphEdge {
+  /** Object holding the lookup field */
+  child: string;
+  /** Object the lookup points to */
+  parent: string;
+  field: string;
+  /** Name of the lookup as seen from the child (e.g. Account) */
+  relationshipName?: string;
+  /** Name of the relationship as seen from the parent (e.g. Contacts) */
+  childRelationshipName?: string;
+  masterDetail: boolean;
+}
+
+const MAX_DEPTH = 3;
+const DEFAULT_MAX_OBJECTS = 50;
+const AUDIT_FIELDS = ['createdbyid', 'lastmodifiedbyid'];
+const SYSTEM_OBJECT_PATTERN = /(History|Share|Feed|ChangeEvent|__hd)$/;
+
+// Helper function to check whether an object is left out of the graph
+function isSystemObject(objectName: string): boolean {
+  return SYSTEM_OBJECT_PATTERN.test(objectName);
+}
+
+// Walks the relationships breadth first, describing each object once
+async function buildGraph(conn: any, args: RelationshipGraphArgs) {
+  const depth = Math.min(Math.max(args.depth ?? 1, 1), MAX_DEPTH);
+  const direction = args.direction || 'both';
+  const maxObjects = args.maxObjects && args.maxObjects > 0 ? args.maxObjects : DEFAULT_MAX_OBJECTS;
+
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  const skipped = new Set<string>();
+  // Describe results of expanded objects, used to resolve edges once all nodes are known
+  const described: SalesforceDescribeResponse[] = [];
+
+  const addNode = (name: string, level: number) => {
+    if (nodes.has(name)) return true;
+    if (nodes.size >= maxObjects) {
+      skipped.add(name);
+      return false;
+    }
+    nodes.set(name, { name, level, expanded: false });
+    return true;
+  };
+
+  // Labels come from the object list so objects at the last level need no describe of their own
+  const objectsByName = new Map((await describeGlobal(conn)).sobjects.map(object => [object.name.toLowerCase(), object]));
+
+  // Starting objects are matched case-insensitively so edges line up with the describe names
+  args.objectNames.forEach(name => addNode(objectsByName.get(name.toLowerCase())?.name || name, 0));
+  let frontier = [...nodes.values()];
+
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const next: GraphNode[] = [];
+    for (const node of frontier) {
+      let describe: SalesforceDescribeResponse;
+      try {
+        describe = await describeObject(conn, node.name);
+      } catch (error) {
+        node.error = error instanceof Error ? error.message : String(error);
+        logger.warn(`Could not describe ${node.name} for the relationship graph: ${node.error}`);
+        continue;
+      }
+      node.expanded = true;
+      described.push(describe);
+
+      const neighbours: string[] = [];
+      if (direction !== 'children') {
+        describe.fields
+          .filter(field => field.type === 'reference' && (args.includeSystem || !AUDIT_FIELDS.includes(field.name.toLowerCase())))
+          .forEach(field => neighbours.push(...field.referenceTo));
+      }
+      if (direction !== 'parents') {
+        (describe.childRelationships || [])
+          .filter(relationship => relationship.relationshipName)
+          .forEach(relationship => neighbours.push(relationship.childSObject));
+      }
+
+      for (const neighbour of neighbours) {
+        if (!args.includeSystem && isSystemObject(neighbour)) continue;
+        const isNew = !nodes.has(neighbour);
+        if (addNode(neighbour, level + 1) && isNew) next.push(nodes.get(neighbour)!);
+      }
+    }
+    frontier = next;
+  }
+
+  for (const node of nodes.values()) {
+    const object = objectsByName.get(node.name.toLowerCase());
+    if (object) {
+      node.label = object.label;
+      node.custom = object.custom;
+    } else {
+      node.error = node.error || 'object not found';
+    }
+  }
+
+  // Edges are only drawn between objects in the graph, from both sides of each relationship
+  const addEdge = (edge: GraphEdge) => {
+    if (!nodes.has(edge.child) || !nodes.has(edge.parent)) return;
+    // The same relationship can be seen from both objects; each side knows one of its names
+    const key = `${edge.child}.${edge.field}->${edge.parent}`;
+    const existing = edges.get(key);
+    edges.set(key, {
+      ...edge,
+      relationshipName: edge.relationshipName || existing?.relationshipName,
+      childRelationshipName: edge.childRelationshipName || existing?.childRelationshipName
+    });
+  };
+  for (const describe of described) {
+    if (direction !== 'children') {
+      describe.fields
+        .filter(field => field.type === 'reference' && (args.includeSystem || !AUDIT_FIELDS.includes(field.name.toLowerCase())))
+        .forEach(field => field.referenceTo.forEach(parent => addEdge({
+          child: describe.name,
+          parent,
+          field: field.name,
+          relationshipName: field.relationshipName || undefined,
+          masterDetail: Boolean(field.cascadeDelete)
+        })));
+    }
+    if (direction !== 'parents') {
+      (describe.childRelationships || [])
+        .filter(relationship => relationship.relationshipName)
+        .forEach(relationship => addEdge({
+          child: relationship.childSObject,
+          parent: describe.name,
+          field: relationship.field,
+          childRelationshipName: relationship.relationshipName || undefined,
+          masterDetail: relationship.cascadeDelete
+        }));
+    }
+  }
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()], skipped: [...skipped], depth, direction };
+}
+
+// Mermaid entity names may only contain letters, digits, hyphens and underscores
+function mermaidName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+function toMermaid(nodes: GraphNode[], edges: GraphEdge[]): string {
+  const lines = ['erDiagram'];
+  // Objects without relationships in the graph still need to appear as entities
+  const connected = new Set(edges.flatMap(edge => [edge.child, edge.parent]));
+  nodes.filter(node => !connected.has(node.name)).forEach(node => lines.push(`    ${mermaidName(node.name)}`));
+  edges.forEach(edge => {
+    const cardinality = edge.masterDetail ? '||--|{' : '|o--o{';
+    lines.push(`    ${mermaidName(edge.parent)} ${cardinality} ${mermaidName(edge.child)} : "${edge.field}"`);
+  });
+  return lines.join('\n');
+}
+
+function toDot(nodes: GraphNode[], edges: GraphEdge[]): string {
+  const quote = (text: string) => `"${text.replace(/"/g, '\\"')}"`;
+  const lines = ['digraph ERD {', '  rankdir=LR;', '  node [shape=box, fontname="Helvetica"];'];
+  nodes.forEach(node => {
+    const label = node.label && node.label !== node.name ? `${node.name}\\n(${node.label})` : node.name;
+    lines.push(`  ${quote(node.name)} [label=${quote(label)}${node.custom ? ', style=filled, fillcolor="#e8f0fe"' : ''}];`);
+  });
+  edges.forEach(edge => {
+    lines.push(`  ${quote(edge.child)} -> ${quote(edge.parent)} [label=${quote(edge.field)}${edge.masterDetail ? ', style=bold' : ''}];`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function toJson(nodes: GraphNode[], edges: GraphEdge[]): string {
+  const adjacency: Record<string, Array<{ object: string; field: string; relationshipName?: string; childRelationshipName?: string; type: string }>> = {};
+  nodes.forEach(node => { adjacency[node.name] = []; });
+  edges.forEach(edge => adjacency[edge.child].push({
+    object: edge.parent,
+    field: edge.field,
+    relationshipName: edge.relationshipName,
+    childRelationshipName: edge.childRelationshipName,
+    type: edge.masterDetail ? 'master-detail' : 'lookup'
+  }));
+  return JSON.stringify({
+    objects: nodes.map(({ name, label, custom, level, expanded, error }) => ({ name, label, custom, level, expanded, error })),
+    adjacency
+  }, null, 2);
+}
+
+/**
+ * Builds the relationship graph around the given objects and formats it as an ER diagram
+ * @param conn Connected jsforce Connection
+ * @param args Starting objects, depth, direction and output format
+ * @returns Tool response with the diagram and a short summary
+ */
+export async function handleRelationshipGraph(conn: any, args: RelationshipGraphArgs) {
+  try {
+    if (!Array.isArray(args.objectNames) || args.objectNames.length === 0) {
+      throw new Error('objectNames must list at least one object');
+    }
+
+    const format = args.format || 'mermaid';
+    const { nodes, edges, skipped, depth, direction } = await buildGraph(conn, args);
+
+    const diagram = format === 'dot' ? toDot(nodes, edges)
+      : format === 'json' ? toJson(nodes, edges)
+      : toMermaid(nodes, edges);
+
+    const notes = [`${nodes.length} objects and ${edges.length} relationships within ${depth} ${depth === 1 ? 'hop' : 'hops'} (${direction}) of ${args.objectNames.join(', ')}.`];
+    const failed = nodes.filter(node => node.error);
+    if (failed.length > 0) {
+      notes.push(`Could not describe: ${failed.map(node => `${node.name} (${node.error})`).join(', ')}`);
+    }
+    if (skipped.length > 0) {
+      notes.push(`Left out ${skipped.length} more related objects after reaching the limit of ${nodes.length} objects: ${skipped.slice(0, 20).join(', ')}${skipped.length > 20 ? ', ...' : ''}. ` +
+        'Lower the depth, restrict the direction or raise maxObjects to see them.');
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: `${notes.join('\n')}\n\n${diagram}`
+      }],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: "text",
+        text: `Error building relationship graph: ${error instanceof Error ? error.message : String(error)}`
+      }],
+      isError: true,
+    };
+  }
+}
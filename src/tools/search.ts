@@ -1,59 +1,166 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { SalesforceObject } from "../types/salesforce.js";
+import { describeGlobal as getDescribeGlobal } from "../utils/describeCache.js";
+import { editDistance, splitWords, typoAllowance } from "../utils/fuzzyMatch.js";
 
 export const SEARCH_OBJECTS: Tool = {
   name: "salesforce_search_objects",
-  description: "Search for Salesforce standard and custom objects by name pattern. Examples: 'Account' will find Account, AccountHistory; 'Order' will find WorkOrder, ServiceOrder__c etc.",
+  description: `Search for Salesforce standard and custom objects by name or label, ranked by relevance. Examples: 'Account' will find Account, AccountHistory; 'Order' will find WorkOrder, ServiceOrder__c etc.
+
+Matching ignores case, underscores, the __c/__mdt/__e suffixes and namespace prefixes, splits camel case names into words
+('contact role' finds AccountContactRole) and tolerates small typos ('oportunity' finds Opportunity).
+
+Filter by kind of object with objectTypes, e.g. objectTypes: ["platformEvent"] lists platform events;
+searchPattern can be left out when objectTypes is given.`,
   inputSchema: {
     type: "object",
     properties: {
       searchPattern: {
         type: "string",
         description: "Search pattern to find objects (e.g., 'Account Coverage' will find objects like 'AccountCoverage__c')"
+      },
+      objectTypes: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: ["standard", "custom", "customMetadata", "platformEvent", "history", "share"]
+        },
+        description: "Only return objects of these kinds (default: all)",
+        optional: true
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of objects to return, best matches first (default 50)",
+        optional: true
       }
-    },
-    required: ["searchPattern"]
+    }
   }
 };
 
-export async function handleSearchObjects(conn: any, searchPattern: string) {
+export type ObjectCategory = 'standard' | 'custom' | 'customMetadata' | 'platformEvent' | 'history' | 'share';
+
+export interface SearchObjectsArgs {
+  searchPattern?: string;
+  objectTypes?: ObjectCategory[];
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const CATEGORY_LABELS: Record<ObjectCategory, string> = {
+  standard: 'Standard',
+  custom: 'Custom',
+  customMetadata: 'Custom Metadata',
+  platformEvent: 'Platform Event',
+  history: 'History',
+  share: 'Share'
+};
+const NAMESPACED_PATTERN = /^([A-Za-z][A-Za-z0-9]*)__(.+__[A-Za-z]+)$/;
+const SUFFIX_PATTERN = /__(c|mdt|e|x|b|History|Share|ChangeEvent|Feed|hd|kav)$/i;
+
+// Helper function to classify an object by its API name suffix
+function getCategory(obj: SalesforceObject): ObjectCategory {
+  const { name } = obj;
+  if (/__mdt$/i.test(name)) return 'customMetadata';
+  if (/(__e|ChangeEvent)$/.test(name)) return 'platformEvent';
+  if (/History$/.test(name)) return 'history';
+  if (/Share$/.test(name)) return 'share';
+  return obj.custom ? 'custom' : 'standard';
+}
+
+// Helper function to split an API name into namespace and the words of its core name
+function getNameWords(name: string): { namespace?: string; words: string[] } {
+  const namespaced = name.match(NAMESPACED_PATTERN);
+  const core = (namespaced ? namespaced[2] : name).replace(SUFFIX_PATTERN, '');
+  return { namespace: namespaced?.[1].toLowerCase(), words: splitWords(core) };
+}
+
+// Helper function to score how well one search word matches the object's words (0 = no match)
+function scoreWord(queryWord: string, words: string[], compactNames: string[]): number {
+  if (words.includes(queryWord)) return 3;
+  if (words.some(word => word.startsWith(queryWord))) return 2;
+  if (compactNames.some(compact => compact.includes(queryWord))) return 1.5;
+
+  const allowance = typoAllowance(queryWord.length);
+  if (allowance > 0 && words.some(word =>
+    editDistance(queryWord, word) <= allowance ||
+    (word.length > queryWord.length && editDistance(queryWord, word.slice(0, queryWord.length)) <= allowance))) {
+    return 1;
+  }
+  return 0;
+}
+
+// Helper function to score an object against the search words; 0 means it does not match
+function scoreObject(obj: SalesforceObject, queryWords: string[]): number {
+  const { namespace, words: nameWords } = getNameWords(obj.name);
+  const labelWords = splitWords(obj.label);
+  const compactQuery = queryWords.join('');
+  const compactNames = [nameWords.join(''), labelWords.join('')];
+
+  if (compactNames.includes(compactQuery)) return 100;
+  if (compactNames.some(compact => compact.startsWith(compactQuery))) return 85;
+
+  const words = [...nameWords, ...labelWords, ...(namespace ? [namespace] : [])];
+  const wordScores = queryWords.map(queryWord => scoreWord(queryWord, words, compactNames));
+  if (wordScores.some(score => score === 0)) return 0;
+  // Between 50 and 70 depending on how exact the individual words matched
+  return 40 + 10 * wordScores.reduce((sum, score) => sum + score, 0) / queryWords.length;
+}
+
+/**
+ * Searches the org's objects by name and label, ranking the best matches first
+ * @param conn Connected jsforce Connection
+ * @param args Search pattern, object kinds to include and result limit
+ * @returns Tool response with the matching objects
+ */
+export async function handleSearchObjects(conn: any, args: SearchObjectsArgs) {
+  const searchPattern = args.searchPattern?.trim() || '';
+  const limit = Math.min(args.limit && args.limit > 0 ? Math.floor(args.limit) : DEFAULT_LIMIT, MAX_LIMIT);
+  const categories = args.objectTypes && args.objectTypes.length > 0 ? args.objectTypes : undefined;
+
   // Get list of all objects
-  const describeGlobal = await conn.describeGlobal();
-  
-  // Process search pattern to create a more flexible search
-  const searchTerms = searchPattern.toLowerCase().split(' ').filter(term => term.length > 0);
-  
-  // Filter objects based on search pattern
-  const matchingObjects = describeGlobal.sobjects.filter((obj: SalesforceObject) => {
-    const objectName = obj.name.toLowerCase();
-    const objectLabel = obj.label.toLowerCase();
-    
-    // Check if all search terms are present in either the API name or label
-    return searchTerms.every(term => 
-      objectName.includes(term) || objectLabel.includes(term)
-    );
-  });
-
-  if (matchingObjects.length === 0) {
+  const describeGlobal = await getDescribeGlobal(conn);
+
+  // The pattern is normalized like object names, so "Account_Coverage__c" and "account coverage" search alike
+  const queryWords = searchPattern.split(/\s+/).flatMap(term => getNameWords(term).words);
+
+  const ranked = describeGlobal.sobjects
+    .map((obj: SalesforceObject) => ({ obj, category: getCategory(obj) }))
+    .filter(({ category }) => !categories || categories.includes(category))
+    .map(({ obj, category }) => {
+      let score = queryWords.length > 0 ? scoreObject(obj, queryWords) : 1;
+      // History and share objects rank below the object they belong to unless asked for
+      if (score > 0 && !categories && (category === 'history' || category === 'share')) score -= 5;
+      return { obj, category, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.obj.name.length - b.obj.name.length || a.obj.name.localeCompare(b.obj.name));
+
+  const filterText = categories ? ` (${categories.map(category => CATEGORY_LABELS[category]).join(', ')} objects)` : '';
+  if (ranked.length === 0) {
     return {
       content: [{
         type: "text",
-        text: `No Salesforce objects found matching "${searchPattern}".`
+        text: `No Salesforce objects found matching "${searchPattern}"${filterText}.`
       }],
       isError: false,
     };
   }
 
   // Format the output
-  const formattedResults = matchingObjects.map((obj: SalesforceObject) => 
-    `${obj.name}${obj.custom ? ' (Custom)' : ''}\n  Label: ${obj.label}`
+  const shown = ranked.slice(0, limit);
+  const formattedResults = shown.map(({ obj, category }) =>
+    `${obj.name}${category !== 'standard' ? ` (${CATEGORY_LABELS[category]})` : ''}\n  Label: ${obj.label}`
   ).join('\n\n');
+  const header = ranked.length > shown.length
+    ? `Found ${ranked.length} matching objects${filterText}, showing the ${shown.length} best matches:`
+    : `Found ${ranked.length} matching objects${filterText}:`;
 
   return {
     content: [{
       type: "text",
-      text: `Found ${matchingObjects.length} matching objects:\n\n${formattedResults}`
+      text: `${header}\n\n${formattedResults}`
     }],
     isError: false,
   };
-}
\ No newline at end of file
+}
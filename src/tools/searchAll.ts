@@ -1,4 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { OutputFormat, OUTPUT_FORMAT_PROPERTY, getFieldValue, toPlainRecord, toCsv, toMarkdownTable, structuredResponse } from "../utils/outputFormat.js";
 
 export const SEARCH_ALL: Tool = {
   name: "salesforce_search_all",
@@ -120,7 +121,8 @@ Notes:
         type: "boolean",
         description: "Return only viewable records",
         optional: true
-      }
+      },
+      outputFormat: OUTPUT_FORMAT_PROPERTY
     },
     required: ["searchTerm", "objects"]
   }
@@ -148,6 +150,7 @@ export interface SearchAllArgs {
   withClauses?: WithClause[];
   updateable?: boolean;
   viewable?: boolean;
+  outputFormat?: OutputFormat;
 }
 
 function buildWithClause(withClause: WithClause): string {
@@ -168,7 +171,7 @@ function buildWithClause(withClause: WithClause): string {
 }
 
 export async function handleSearchAll(conn: any, args: SearchAllArgs) {
-  const { searchTerm, searchIn = "ALL FIELDS", objects, withClauses, updateable, viewable } = args;
+  const { searchTerm, searchIn = "ALL FIELDS", objects, withClauses, updateable, viewable, outputFormat = 'text' } = args;
 
   try {
     // Validate the search term
@@ -211,6 +214,46 @@ export async function handleSearchAll(conn: any, args: SearchAllArgs) {
     // Execute search
     const result = await conn.search(soslQuery);
 
+    if (outputFormat === 'json') {
+      return structuredResponse({
+        objects: Object.fromEntries(objects.map(obj => [
+          obj.name,
+          result.searchRecords
+            .filter((record: any) => record.attributes.type === obj.name)
+            .map(toPlainRecord)
+        ]))
+      });
+    }
+
+    if (outputFormat === 'csv') {
+      // One sheet-friendly table: an Object column plus the union of all requested fields
+      const columns = ['Object', ...new Set(objects.flatMap(obj => obj.fields))];
+      const rows = result.searchRecords.map((record: any) =>
+        columns.map((column, i) => i === 0 ? record.attributes.type : getFieldValue(record, column)));
+      return {
+        content: [{
+          type: "text",
+          text: toCsv(columns, rows)
+        }],
+        isError: false,
+      };
+    }
+
+    if (outputFormat === 'markdown') {
+      const tables = objects.map(obj => {
+        const objectResults = result.searchRecords.filter((record: any) => record.attributes.type === obj.name);
+        const rows = objectResults.map((record: any) => obj.fields.map(field => getFieldValue(record, field)));
+        return `### ${obj.name} (${objectResults.length} records found)\n\n${toMarkdownTable(obj.fields, rows)}`;
+      });
+      return {
+        content: [{
+          type: "text",
+          text: `Search Results:\n\n${tables.join('\n\n')}`
+        }],
+        isError: false,
+      };
+    }
+
     // Format results by object
     let formattedResults = '';
     objects.forEach((obj, index) => {
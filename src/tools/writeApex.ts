@@ -1,4 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
 import type { Connection } from "jsforce";
 
 export const WRITE_APEX: Tool = {
@@ -86,7 +87,7 @@ export async function handleWriteApex(conn: any, args: WriteApexArgs) {
     
     // Handle create operation
     if (args.operation === 'create') {
-      console.error(`Creating new Apex class: ${args.className}`);
+      logger.info(`Creating new Apex class: ${args.className}`);
       
       // Check if class already exists
       const existingClass = await conn.query(`
@@ -101,7 +102,7 @@ export async function handleWriteApex(conn: any, args: WriteApexArgs) {
       const createResult = await conn.tooling.sobject('ApexClass').create({
         Name: args.className,
         Body: args.body,
-        ApiVersion: args.apiVersion || '58.0', // Default to latest if not specified
+        ApiVersion: args.apiVersion || conn.version, // Default to the configured or latest org version
         Status: 'Active'
       });
       
@@ -114,14 +115,14 @@ export async function handleWriteApex(conn: any, args: WriteApexArgs) {
           type: "text", 
           text: `Successfully created Apex class: ${args.className}\n\n` +
                 `**ID:** ${createResult.id}\n` +
-                `**API Version:** ${args.apiVersion || '58.0'}\n` +
+                `**API Version:** ${args.apiVersion || conn.version}\n` +
                 `**Status:** Active`
         }]
       };
     } 
     // Handle update operation
     else if (args.operation === 'update') {
-      console.error(`Updating Apex class: ${args.className}`);
+      logger.info(`Updating Apex class: ${args.className}`);
       
       // Find the existing class
       const existingClass = await conn.query(`
@@ -167,7 +168,7 @@ export async function handleWriteApex(conn: any, args: WriteApexArgs) {
       throw new Error(`Invalid operation: ${args.operation}. Must be 'create' or 'update'.`);
     }
   } catch (error) {
-    console.error('Error writing Apex class:', error);
+    logger.error('Error writing Apex class:', error);
     return {
       content: [{ 
         type: "text", 
@@ -1,4 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger.js";
 
 export const WRITE_APEX_TRIGGER: Tool = {
   name: "salesforce_write_apex_trigger",
@@ -92,7 +93,7 @@ export async function handleWriteApexTrigger(conn: any, args: WriteApexTriggerAr
     
     // Handle create operation
     if (args.operation === 'create') {
-      console.error(`Creating new Apex trigger: ${args.triggerName}`);
+      logger.info(`Creating new Apex trigger: ${args.triggerName}`);
       
       // Validate object name for create operation
       if (!args.objectName) {
@@ -119,7 +120,7 @@ export async function handleWriteApexTrigger(conn: any, args: WriteApexTriggerAr
         Name: args.triggerName,
         TableEnumOrId: args.objectName,
         Body: args.body,
-        ApiVersion: args.apiVersion || '58.0', // Default to latest if not specified
+        ApiVersion: args.apiVersion || conn.version, // Default to the configured or latest org version
         Status: 'Active'
       });
       
@@ -133,14 +134,14 @@ export async function handleWriteApexTrigger(conn: any, args: WriteApexTriggerAr
           text: `Successfully created Apex trigger: ${args.triggerName}\n\n` +
                 `**ID:** ${createResult.id}\n` +
                 `**Object:** ${args.objectName}\n` +
-                `**API Version:** ${args.apiVersion || '58.0'}\n` +
+                `**API Version:** ${args.apiVersion || conn.version}\n` +
                 `**Status:** Active`
         }]
       };
     } 
     // Handle update operation
     else if (args.operation === 'update') {
-      console.error(`Updating Apex trigger: ${args.triggerName}`);
+      logger.info(`Updating Apex trigger: ${args.triggerName}`);
       
       // Find the existing trigger
       const existingTrigger = await conn.query(`
@@ -194,7 +195,7 @@ export async function handleWriteApexTrigger(conn: any, args: WriteApexTriggerAr
       throw new Error(`Invalid operation: ${args.operation}. Must be 'create' or 'update'.`);
     }
   } catch (error) {
-    console.error('Error writing Apex trigger:', error);
+    logger.error('Error writing Apex trigger:', error);
     return {
       content: [{ 
         type: "text", 
@@ -12,7 +12,13 @@ export enum ConnectionType {
    * OAuth 2.0 Client Credentials Flow using client ID and secret
    * Requires SALESFORCE_CLIENT_ID and SALESFORCE_CLIENT_SECRET
    */
-  OAuth_2_0_Client_Credentials = 'OAuth_2.0_Client_Credentials'
+  OAuth_2_0_Client_Credentials = 'OAuth_2.0_Client_Credentials',
+
+  /**
+   * OAuth 2.0 JWT Bearer Flow using a connected app certificate, no password stored
+   * Requires SALESFORCE_CLIENT_ID, SALESFORCE_PRIVATE_KEY_PATH and SALESFORCE_USERNAME
+   */
+  OAuth_2_0_JWT_Bearer = 'OAuth_2.0_JWT_Bearer'
 }
 
 /**
@@ -31,3 +37,53 @@ export interface ConnectionConfig {
    */
   loginUrl?: string;
 }
+
+/**
+ * Credentials and settings for a single named Salesforce org
+ */
+export interface OrgProfile {
+  /**
+   * The type of connection to use
+   * @default ConnectionType.User_Password
+   */
+  connectionType?: ConnectionType;
+
+  /**
+   * The login URL for the org
+   * @default 'https://login.salesforce.com'
+   */
+  instanceUrl?: string;
+
+  username?: string;
+  password?: string;
+  securityToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+
+  /**
+   * Path to the PEM private key used for JWT Bearer authentication
+   */
+  privateKeyPath?: string;
+
+  /**
+   * API version for this org, overriding SALESFORCE_API_VERSION
+   */
+  apiVersion?: string;
+
+  /**
+   * Rejects mutating tools for this org even when read-only mode is off globally
+   */
+  readOnly?: boolean;
+}
+
+/**
+ * Shape of the org profiles file referenced by SALESFORCE_ORGS_CONFIG
+ */
+export interface OrgProfilesConfig {
+  /**
+   * Profile used when a tool call does not name an org
+   */
+  defaultOrg?: string;
+
+  orgs: Record<string, OrgProfile>;
+}
@@ -10,6 +10,9 @@ export interface MetadataInfo {
   deploymentStatus?: 'Deployed' | 'InDevelopment';
   sharingModel?: 'ReadWrite' | 'Read' | 'Private' | 'ControlledByParent';
   enableActivities?: boolean;
+  enableHistory?: boolean;
+  enableReports?: boolean;
+  enableSearch?: boolean;
   description?: string;
 }
 
@@ -38,8 +41,74 @@ export interface FieldMetadataInfo {
   relationshipName?: string;
   deleteConstraint?: 'Cascade' | 'Restrict' | 'SetNull';
   valueSet?: {
-    valueSetDefinition: ValueSetDefinition;
+    valueSetDefinition?: ValueSetDefinition;
+    /** Global value set the picklist uses instead of its own values */
+    valueSetName?: string;
+    restricted?: boolean;
   };
   defaultValue?: string | number | boolean;
   description?: string;
-}
\ No newline at end of file
+  formula?: string;
+  formulaTreatBlanksAs?: 'BlankAsZero' | 'BlankAsBlank';
+  summarizedField?: string;
+  summaryForeignKey?: string;
+  summaryOperation?: 'count' | 'sum' | 'min' | 'max';
+  displayFormat?: string;
+  startingNumber?: number;
+  displayLocationInDecimal?: boolean;
+  maskType?: string;
+  maskChar?: string;
+}
+
+export interface RecordTypePicklistValues {
+  picklist: string;
+  values: Array<{
+    fullName: string;
+    default?: boolean;
+  }>;
+}
+
+export interface RecordTypeMetadataInfo {
+  fullName: string;
+  label: string;
+  active?: boolean;
+  description?: string;
+  businessProcess?: string;
+  picklistValues?: RecordTypePicklistValues[];
+}
+
+export interface LayoutItem {
+  field?: string;
+  behavior?: 'Edit' | 'Required' | 'Readonly';
+  emptySpace?: boolean;
+  [key: string]: unknown;
+}
+
+export interface LayoutColumn {
+  layoutItems?: LayoutItem[];
+  reserved?: string;
+}
+
+export interface LayoutSection {
+  label?: string;
+  customLabel?: boolean;
+  detailHeading?: boolean;
+  editHeading?: boolean;
+  style: string;
+  layoutColumns?: LayoutColumn[];
+}
+
+export interface LayoutMetadataInfo {
+  fullName: string;
+  layoutSections?: LayoutSection[];
+  [key: string]: unknown;
+}
+
+export interface ValidationRuleMetadataInfo {
+  fullName: string;
+  active: boolean;
+  description?: string;
+  errorConditionFormula: string;
+  errorDisplayField?: string;
+  errorMessage: string;
+}
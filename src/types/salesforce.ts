@@ -9,10 +9,44 @@ export interface SalesforceObject {
     label: string;
     type: string;
     nillable: boolean;
+    createable: boolean;
+    updateable: boolean;
+    nameField: boolean;
+    defaultedOnCreate: boolean;
     length?: number;
-    picklistValues: Array<{ value: string }>;
+    picklistValues: Array<{ value: string; label?: string; active?: boolean; defaultValue?: boolean }>;
+    restrictedPicklist: boolean;
+    dependentPicklist?: boolean;
+    controllerName?: string | null;
     defaultValue: string | null;
+    defaultValueFormula?: string | null;
     referenceTo: string[];
+    relationshipName: string | null;
+    cascadeDelete?: boolean;
+    custom?: boolean;
+    calculated?: boolean;
+    calculatedFormula?: string | null;
+    inlineHelpText?: string | null;
+    externalId?: boolean;
+    unique?: boolean;
+    filterable?: boolean;
+  }
+
+  export interface SalesforceChildRelationship {
+    childSObject: string;
+    field: string;
+    relationshipName: string | null;
+    cascadeDelete: boolean;
+  }
+
+  export interface SalesforceRecordTypeInfo {
+    name: string;
+    developerName: string;
+    recordTypeId: string;
+    active: boolean;
+    available: boolean;
+    defaultRecordTypeMapping: boolean;
+    master: boolean;
   }
   
   export interface SalesforceDescribeResponse {
@@ -20,6 +54,13 @@ export interface SalesforceObject {
     label: string;
     fields: SalesforceField[];
     custom: boolean;
+    keyPrefix?: string | null;
+    createable?: boolean;
+    updateable?: boolean;
+    deletable?: boolean;
+    queryable?: boolean;
+    childRelationships?: SalesforceChildRelationship[];
+    recordTypeInfos?: SalesforceRecordTypeInfo[];
   }
   
   export interface SalesforceError {
@@ -32,4 +73,13 @@ export interface SalesforceObject {
     success: boolean;
     id?: string;
     errors?: SalesforceError[] | SalesforceError;
+    /** Set by upserts: whether the record was inserted rather than matched */
+    created?: boolean;
+  }
+
+  export interface MergeResult extends DMLResult {
+    /** Duplicates merged into the master record (a single Id when there was one) */
+    mergedRecordIds?: string[] | string;
+    /** Related records re-parented to the master record */
+    updatedRelatedIds?: string[] | string;
   }
\ No newline at end of file
@@ -0,0 +1,300 @@
+import { getRuntimeConfig } from './config.js';
+import { logger } from './logger.js';
+import { toCsv } from './outputFormat.js';
+
+export type BulkIngestOperation = 'insert' | 'update' | 'delete' | 'upsert' | 'hardDelete';
+
+/**
+ * Outcome of one input record in a Bulk API 2.0 ingest job
+ */
+export interface BulkRecordResult {
+  /** Position of the record in the submitted array (0-based) */
+  index: number;
+  state: 'successful' | 'failed' | 'unprocessed';
+  id?: string;
+  created?: boolean;
+  error?: string;
+}
+
+export interface BulkIngestResult {
+  jobId: string;
+  state: string;
+  errorMessage?: string;
+  results: BulkRecordResult[];
+}
+
+export interface BulkQueryPage {
+  jobId: string;
+  records: any[];
+  totalSize?: number;
+  /** "bulk:<jobId>:<locator>" when more rows remain in the job's results */
+  nextCursor?: string;
+}
+
+const QUERY_CURSOR_PREFIX = 'bulk:';
+const FINAL_STATES = ['JobComplete', 'Failed', 'Aborted'];
+const MIN_POLL_INTERVAL = 500;
+const MAX_POLL_INTERVAL = 5000;
+
+/**
+ * Parses RFC 4180 CSV text into rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Helper function to turn CSV rows into objects keyed by the header row
+function csvToObjects(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  return rows.map(row => Object.fromEntries(header.map((column, index) => [column, row[index] ?? ''])));
+}
+
+interface BulkRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+  contentType?: string;
+  /** Return the body as text instead of letting jsforce parse CSV responses */
+  raw?: boolean;
+}
+
+// Sends a Bulk API request and hands back the response headers along with the body
+async function bulkRequest(conn: any, { method, path, body, contentType = 'application/json', raw = false }: BulkRequest) {
+  let response: any;
+  const transport = {
+    httpRequest: (request: any) => conn._transport.httpRequest(request).then((res: any) => {
+      response = res;
+      return res;
+    })
+  };
+
+  const request: Record<string, unknown> = {
+    method,
+    url: path,
+    headers: { 'Content-Type': contentType, Accept: 'application/json' }
+  };
+  if (body !== undefined) {
+    request.body = typeof body === 'string' ? body : JSON.stringify(body);
+  }
+
+  const parsed = await conn.request(request, { transport, responseType: raw ? 'text/plain' : undefined });
+  return { body: parsed, headers: (response?.headers || {}) as Record<string, string> };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Polls a job until it reaches a final state, backing off up to MAX_POLL_INTERVAL
+async function waitForJob(conn: any, jobPath: string) {
+  const { bulkPollTimeout } = getRuntimeConfig();
+  const startedAt = Date.now();
+  let interval = MIN_POLL_INTERVAL;
+
+  for (;;) {
+    const { body: job } = await bulkRequest(conn, { method: 'GET', path: jobPath });
+    if (FINAL_STATES.includes(job.state)) return job;
+
+    if (Date.now() - startedAt + interval > bulkPollTimeout) {
+      throw new Error(`Bulk job ${job.id} is still ${job.state} after ${Math.round(bulkPollTimeout / 1000)}s; check its status in Setup > Bulk Data Load Jobs`);
+    }
+    logger.debug(`Bulk job ${job.id} is ${job.state}, polling again in ${interval}ms`);
+    await sleep(interval);
+    interval = Math.min(interval * 2, MAX_POLL_INTERVAL);
+  }
+}
+
+// Helper function to convert an input value to its Bulk API CSV representation
+function toBulkValue(value: unknown): unknown {
+  // #N/A clears a field; an empty cell leaves it unchanged
+  if (value === null) return '#N/A';
+  if (value === undefined) return '';
+  return value;
+}
+
+/**
+ * Runs a Bulk API 2.0 ingest job for the given records and waits for it to finish
+ * @param conn Connected jsforce Connection
+ * @param objectName API name of the target object
+ * @param operation Ingest operation
+ * @param records Records to process; delete operations only need Id
+ * @param externalIdField External ID field for upsert
+ * @returns Job state and one result per input record, in input order
+ */
+export async function runBulkIngestJob(
+  conn: any,
+  objectName: string,
+  operation: BulkIngestOperation,
+  records: Record<string, any>[],
+  externalIdField?: string
+): Promise<BulkIngestResult> {
+  const isDelete = operation === 'delete' || operation === 'hardDelete';
+  const columns = isDelete
+    ? ['Id']
+    : [...new Set(records.flatMap(record => Object.keys(record)))].filter(column => column !== 'attributes');
+  const rows = records.map(record => columns.map(column => toBulkValue(record[column])));
+  const csv = toCsv(columns, rows);
+
+  const { body: job } = await bulkRequest(conn, {
+    method: 'POST',
+    path: '/jobs/ingest',
+    body: {
+      object: objectName,
+      operation,
+      externalIdFieldName: operation === 'upsert' ? externalIdField : undefined,
+      contentType: 'CSV',
+      lineEnding: 'LF'
+    }
+  });
+  const jobPath = `/jobs/ingest/${job.id}`;
+  logger.info(`Created bulk ${operation} job ${job.id} for ${records.length} ${objectName} records`);
+
+  try {
+    await bulkRequest(conn, { method: 'PUT', path: `${jobPath}/batches`, body: csv, contentType: 'text/csv' });
+    await bulkRequest(conn, { method: 'PATCH', path: jobPath, body: { state: 'UploadComplete' } });
+  } catch (error) {
+    // Leave no open job behind when the upload fails
+    await bulkRequest(conn, { method: 'PATCH', path: jobPath, body: { state: 'Aborted' } }).catch(() => undefined);
+    throw error;
+  }
+
+  const finished = await waitForJob(conn, jobPath);
+
+  // Result files echo the uploaded columns in any order, so rows are matched back to
+  // their input position by the uploaded cell values
+  const rowKey = (cells: unknown[]) => cells.map(cell => cell === null || cell === undefined ? '' : String(cell)).join('\u0000');
+  const pending = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const key = rowKey(row);
+    pending.set(key, [...(pending.get(key) || []), index]);
+  });
+
+  const results: BulkRecordResult[] = records.map((_, index) => ({ index, state: 'unprocessed' }));
+  const readResults = async (resource: string) =>
+    csvToObjects((await bulkRequest(conn, { method: 'GET', path: `${jobPath}/${resource}`, raw: true })).body || '');
+  const matchResult = (row: Record<string, string>) => {
+    const index = pending.get(rowKey(columns.map(column => row[column])))?.shift();
+    return index === undefined ? undefined : results[index];
+  };
+
+  for (const row of await readResults('successfulResults/')) {
+    const result = matchResult(row);
+    if (!result) continue;
+    result.state = 'successful';
+    result.id = row.sf__Id || row.Id || undefined;
+    result.created = row.sf__Created === 'true';
+  }
+  for (const row of await readResults('failedResults/')) {
+    const result = matchResult(row);
+    if (!result) continue;
+    result.state = 'failed';
+    result.id = row.sf__Id || row.Id || undefined;
+    result.error = row.sf__Error;
+  }
+
+  return {
+    jobId: job.id,
+    state: finished.state,
+    errorMessage: finished.errorMessage || undefined,
+    results
+  };
+}
+
+// Helper function to rebuild nested relationship objects from dotted CSV column names
+function toNestedRecord(row: Record<string, string>): any {
+  const record: any = {};
+  for (const [column, value] of Object.entries(row)) {
+    const parts = column.split('.');
+    let target = record;
+    parts.slice(0, -1).forEach(part => {
+      target[part] = target[part] || {};
+      target = target[part];
+    });
+    // Bulk query results cannot tell empty strings from nulls; treat both as null
+    target[parts[parts.length - 1]] = value === '' ? null : value;
+  }
+  return record;
+}
+
+/**
+ * Checks whether a query cursor points into a Bulk API query job rather than a REST query locator
+ */
+export function isBulkQueryCursor(cursor: string): boolean {
+  return cursor.startsWith(QUERY_CURSOR_PREFIX);
+}
+
+/**
+ * Fetches one page of a Bulk API 2.0 query job, starting the job when no cursor is given
+ * @param conn Connected jsforce Connection
+ * @param soql Query to run (ignored when cursor is set)
+ * @param cursor "bulk:<jobId>:<locator>" from a previous page
+ * @param maxRecords Maximum number of rows to return in this page
+ */
+export async function runBulkQueryJob(conn: any, soql: string, cursor: string | undefined, maxRecords: number): Promise<BulkQueryPage> {
+  let jobId: string;
+  let locator: string | undefined;
+
+  if (cursor) {
+    [jobId, locator] = cursor.slice(QUERY_CURSOR_PREFIX.length).split(':');
+  } else {
+    const { body: job } = await bulkRequest(conn, {
+      method: 'POST',
+      path: '/jobs/query',
+      body: { operation: 'query', query: soql, contentType: 'CSV', lineEnding: 'LF' }
+    });
+    jobId = job.id;
+    logger.info(`Created bulk query job ${jobId}`);
+  }
+
+  const jobPath = `/jobs/query/${jobId}`;
+  const finished = await waitForJob(conn, jobPath);
+  if (finished.state !== 'JobComplete') {
+    throw new Error(`Bulk query job ${jobId} ${finished.state.toLowerCase()}: ${finished.errorMessage || 'no error message returned'}`);
+  }
+
+  const params = new URLSearchParams({ maxRecords: String(maxRecords) });
+  if (locator) params.set('locator', locator);
+  const { body, headers } = await bulkRequest(conn, { method: 'GET', path: `${jobPath}/results?${params}`, raw: true });
+
+  const nextLocator = headers['sforce-locator'];
+  return {
+    jobId,
+    records: csvToObjects(body || '').map(toNestedRecord),
+    totalSize: finished.numberRecordsProcessed,
+    nextCursor: nextLocator && nextLocator !== 'null' ? `${QUERY_CURSOR_PREFIX}${jobId}:${nextLocator}` : undefined
+  };
+}
@@ -0,0 +1,145 @@
+import { SalesforceError } from '../types/salesforce.js';
+
+/**
+ * One record operation in a composite graph. Field values may reference the Id of an
+ * earlier node with "@{referenceId.id}".
+ */
+export interface CompositeNode {
+  referenceId: string;
+  objectName: string;
+  operation: 'insert' | 'update' | 'delete' | 'upsert';
+  fields: Record<string, any>;
+  externalIdField?: string;
+}
+
+export interface CompositeNodeResult {
+  node: CompositeNode;
+  success: boolean;
+  id?: string;
+  created?: boolean;
+  /** True when the node itself was valid but the transaction was rolled back because of another node */
+  rolledBack: boolean;
+  errors: SalesforceError[];
+}
+
+// Composite graph accepts at most 500 nodes per graph
+export const MAX_GRAPH_NODES = 500;
+
+const REFERENCE_PATTERN = /@\{([A-Za-z0-9_]+)\.[A-Za-z0-9_.]+\}/g;
+
+// Stands in for the Id of a record created earlier in the same graph
+const PLACEHOLDER_ID = '000000000000000AAA';
+
+/**
+ * Replaces values that are a single "@{ref.id}" reference with a placeholder record Id, so the fields
+ * can be checked against the describe before the referenced records exist
+ */
+export function withReferencePlaceholders(fields: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(fields).map(([name, value]) =>
+    [name, typeof value === 'string' && new RegExp(`^${REFERENCE_PATTERN.source}$`).test(value) ? PLACEHOLDER_ID : value]));
+}
+
+/**
+ * Checks reference ids and that every "@{ref.field}" points at an earlier node
+ */
+export function validateCompositeNodes(nodes: CompositeNode[]): { isValid: boolean; error?: string } {
+  if (nodes.length > MAX_GRAPH_NODES) {
+    return { isValid: false, error: `A composite graph accepts at most ${MAX_GRAPH_NODES} records, got ${nodes.length}` };
+  }
+
+  const seen = new Set<string>();
+  for (const [index, node] of nodes.entries()) {
+    const label = `Record ${index + 1}${node.referenceId ? ` (${node.referenceId})` : ''}`;
+    if (!node.referenceId || !/^[A-Za-z][A-Za-z0-9_]*$/.test(node.referenceId)) {
+      return { isValid: false, error: `${label}: referenceId is required and may only contain letters, digits and underscores, starting with a letter` };
+    }
+    if (seen.has(node.referenceId)) {
+      return { isValid: false, error: `${label}: referenceId "${node.referenceId}" is used more than once` };
+    }
+    if (!node.objectName) {
+      return { isValid: false, error: `${label}: objectName is required` };
+    }
+    if ((node.operation === 'update' || node.operation === 'delete') && !node.fields?.Id) {
+      return { isValid: false, error: `${label}: ${node.operation} requires fields.Id` };
+    }
+    if (node.operation === 'upsert' && (!node.externalIdField || node.fields?.[node.externalIdField] === undefined)) {
+      return { isValid: false, error: `${label}: upsert requires externalIdField and a value for it in fields` };
+    }
+
+    for (const match of JSON.stringify(node.fields || {}).matchAll(REFERENCE_PATTERN)) {
+      if (!seen.has(match[1])) {
+        return { isValid: false, error: `${label}: "${match[0]}" must reference the referenceId of an earlier record` };
+      }
+    }
+    seen.add(node.referenceId);
+  }
+  return { isValid: true };
+}
+
+// Helper function to build the subrequest for one node
+function toSubrequest(conn: any, node: CompositeNode) {
+  const base = `/services/data/v${conn.version}/sobjects/${node.objectName}`;
+  const { Id, ...fields } = node.fields;
+
+  switch (node.operation) {
+    case 'insert':
+      return { method: 'POST', url: base, referenceId: node.referenceId, body: fields };
+    case 'update':
+      return { method: 'PATCH', url: `${base}/${Id}`, referenceId: node.referenceId, body: fields };
+    case 'delete':
+      return { method: 'DELETE', url: `${base}/${Id}`, referenceId: node.referenceId };
+    case 'upsert': {
+      const { [node.externalIdField!]: externalId, ...upsertFields } = node.fields;
+      return {
+        method: 'PATCH',
+        url: `${base}/${node.externalIdField}/${encodeURIComponent(String(externalId))}`,
+        referenceId: node.referenceId,
+        body: upsertFields
+      };
+    }
+    default:
+      throw new Error(`Unsupported operation: ${node.operation}`);
+  }
+}
+
+/**
+ * Sends the nodes as one composite graph, which Salesforce commits or rolls back as a whole
+ * @param conn Connected jsforce Connection
+ * @param nodes Record operations in dependency order
+ * @returns Whether the graph committed, and one result per node in input order
+ */
+export async function runCompositeGraph(conn: any, nodes: CompositeNode[]) {
+  const response = await conn.request({
+    method: 'POST',
+    url: `/services/data/v${conn.version}/composite/graph`,
+    body: JSON.stringify({
+      graphs: [{ graphId: 'graph1', compositeRequest: nodes.map(node => toSubrequest(conn, node)) }]
+    }),
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  const graph = response.graphs?.[0];
+  const responses: any[] = graph?.graphResponse?.compositeResponse || [];
+  const byReference = new Map(responses.map(sub => [sub.referenceId, sub]));
+
+  const results: CompositeNodeResult[] = nodes.map(node => {
+    const sub = byReference.get(node.referenceId);
+    if (!sub) {
+      return { node, success: false, rolledBack: true, errors: [] };
+    }
+
+    const ok = sub.httpStatusCode >= 200 && sub.httpStatusCode < 300;
+    const errors: SalesforceError[] = ok ? [] : (Array.isArray(sub.body) ? sub.body : [sub.body]).filter(Boolean)
+      .map((error: any) => ({ statusCode: error.errorCode, message: error.message, fields: error.fields }));
+    return {
+      node,
+      success: ok && graph.isSuccessful,
+      id: sub.body?.id ?? (node.operation === 'update' || node.operation === 'delete' ? node.fields.Id : undefined),
+      created: sub.body?.created ?? (node.operation === 'insert' ? true : undefined),
+      rolledBack: !graph.isSuccessful && (ok || errors.every(error => error.statusCode === 'PROCESSING_HALTED')),
+      errors: errors.filter(error => error.statusCode !== 'PROCESSING_HALTED')
+    };
+  });
+
+  return { isSuccessful: Boolean(graph?.isSuccessful), results };
+}
@@ -0,0 +1,173 @@
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * Runtime settings passed in by the DXT manifest (SALESFORCE_API_VERSION, SALESFORCE_TIMEOUT,
+ * SALESFORCE_LOG_LEVEL, SALESFORCE_MAX_QUERY_RECORDS, the SALESFORCE_BULK_* thresholds, SALESFORCE_DML_JOURNAL_PATH, SALESFORCE_DESCRIBE_CACHE_DIR and the SALESFORCE_READ_ONLY* switches) and shared by the connection and every tool
+ */
+export interface RuntimeConfig {
+  /**
+   * Salesforce API version without the "v" prefix (e.g. '60.0').
+   * When unset, the latest version supported by the org is detected after login.
+   */
+  apiVersion?: string;
+
+  /**
+   * Timeout for each HTTP request to Salesforce, in milliseconds
+   * @default 30000
+   */
+  timeout: number;
+
+  /**
+   * Verbosity of the diagnostics written to stderr
+   * @default 'info'
+   */
+  logLevel: LogLevel;
+
+  /**
+   * Blocks tools that modify data, metadata or code
+   * @default false
+   */
+  readOnly: boolean;
+
+  /**
+   * Mutating tools that stay available while read-only mode is on
+   */
+  readOnlyAllowedTools: string[];
+
+  /**
+   * Default cap on the number of records salesforce_query_records fetches per call
+   * @default 2000
+   */
+  maxQueryRecords: number;
+
+  /**
+   * DML calls with more records than this run as Bulk API 2.0 jobs
+   * @default 200
+   */
+  bulkThreshold: number;
+
+  /**
+   * Queries asking for more than this many records (maxRecords) run as Bulk API 2.0 query jobs
+   * @default 10000
+   */
+  bulkQueryThreshold: number;
+
+  /**
+   * How long to wait for a Bulk API job to finish, in milliseconds
+   * @default 600000
+   */
+  bulkPollTimeout: number;
+
+  /**
+   * File the DML undo journal is saved to so it survives restarts.
+   * When unset the journal is only kept in memory.
+   */
+  dmlJournalPath?: string;
+
+  /**
+   * Directory where object describes are cached so they survive restarts.
+   * When unset describes are only cached in memory.
+   */
+  describeCacheDir?: string;
+}
+
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_MAX_QUERY_RECORDS = 2000;
+// REST queries return batches of at least 200 records, so a smaller cap could not be honored
+const MIN_MAX_QUERY_RECORDS = 200;
+const DEFAULT_BULK_THRESHOLD = 200;
+const DEFAULT_BULK_QUERY_THRESHOLD = 10000;
+const DEFAULT_BULK_POLL_TIMEOUT = 600000;
+const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+let cachedConfig: RuntimeConfig | null = null;
+
+// Unset manifest values can arrive as empty strings or as the unexpanded placeholder
+function readSetting(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  if (!value || value.startsWith('${')) return undefined;
+  return value;
+}
+
+// Reads a positive integer setting, falling back to the default when unset or invalid
+function readPositiveInteger(name: string, defaultValue: number): number {
+  const setting = readSetting(name);
+  if (!setting) return defaultValue;
+  const parsed = Number(setting);
+  if (Number.isInteger(parsed) && parsed > 0) return parsed;
+  console.error(`Ignoring invalid ${name} "${setting}", using ${defaultValue}`);
+  return defaultValue;
+}
+
+/**
+ * Checks whether a string is a Salesforce API version such as '58.0'
+ */
+export function isValidApiVersion(version: string): boolean {
+  return /^\d{2,3}\.0$/.test(version);
+}
+
+/**
+ * Returns the runtime configuration, reading it from the environment on first use.
+ * Invalid values are reported on stderr and replaced by their defaults.
+ */
+export function getRuntimeConfig(): RuntimeConfig {
+  if (cachedConfig) return cachedConfig;
+
+  let apiVersion = readSetting('SALESFORCE_API_VERSION')?.replace(/^v/i, '');
+  if (apiVersion && /^\d+$/.test(apiVersion)) {
+    apiVersion = `${apiVersion}.0`;
+  }
+  if (apiVersion && !isValidApiVersion(apiVersion)) {
+    console.error(`Ignoring invalid SALESFORCE_API_VERSION "${apiVersion}", the org's latest version will be used`);
+    apiVersion = undefined;
+  }
+
+  let timeout = DEFAULT_TIMEOUT;
+  const timeoutSetting = readSetting('SALESFORCE_TIMEOUT');
+  if (timeoutSetting) {
+    const parsed = Number(timeoutSetting);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      timeout = parsed;
+    } else {
+      console.error(`Ignoring invalid SALESFORCE_TIMEOUT "${timeoutSetting}", using ${DEFAULT_TIMEOUT}ms`);
+    }
+  }
+
+  let logLevel: LogLevel = 'info';
+  const logLevelSetting = readSetting('SALESFORCE_LOG_LEVEL')?.toLowerCase();
+  if (logLevelSetting) {
+    if (LOG_LEVELS.includes(logLevelSetting as LogLevel)) {
+      logLevel = logLevelSetting as LogLevel;
+    } else {
+      console.error(`Ignoring invalid SALESFORCE_LOG_LEVEL "${logLevelSetting}", using 'info'`);
+    }
+  }
+
+  let maxQueryRecords = DEFAULT_MAX_QUERY_RECORDS;
+  const maxQueryRecordsSetting = readSetting('SALESFORCE_MAX_QUERY_RECORDS');
+  if (maxQueryRecordsSetting) {
+    const parsed = Number(maxQueryRecordsSetting);
+    if (Number.isInteger(parsed) && parsed >= MIN_MAX_QUERY_RECORDS) {
+      maxQueryRecords = parsed;
+    } else {
+      console.error(`Ignoring invalid SALESFORCE_MAX_QUERY_RECORDS "${maxQueryRecordsSetting}" (must be at least ${MIN_MAX_QUERY_RECORDS}), using ${DEFAULT_MAX_QUERY_RECORDS}`);
+    }
+  }
+
+  const bulkThreshold = readPositiveInteger('SALESFORCE_BULK_THRESHOLD', DEFAULT_BULK_THRESHOLD);
+  const bulkQueryThreshold = readPositiveInteger('SALESFORCE_BULK_QUERY_THRESHOLD', DEFAULT_BULK_QUERY_THRESHOLD);
+  const bulkPollTimeout = readPositiveInteger('SALESFORCE_BULK_POLL_TIMEOUT', DEFAULT_BULK_POLL_TIMEOUT);
+
+  const dmlJournalPath = readSetting('SALESFORCE_DML_JOURNAL_PATH');
+  const describeCacheDir = readSetting('SALESFORCE_DESCRIBE_CACHE_DIR');
+
+  const readOnly = /^(true|1|yes)$/i.test(readSetting('SALESFORCE_READ_ONLY') || '');
+  const readOnlyAllowedTools = (readSetting('SALESFORCE_READ_ONLY_ALLOWED_TOOLS') || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+
+  cachedConfig = { apiVersion, timeout, logLevel, readOnly, readOnlyAllowedTools, maxQueryRecords,
+    bulkThreshold, bulkQueryThreshold, bulkPollTimeout, dmlJournalPath, describeCacheDir };
+  return cachedConfig;
+}
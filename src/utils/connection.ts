@@ -1,97 +1,230 @@
 import jsforce from 'jsforce';
-import { ConnectionType } from '../types/connection.js';
+import { ConnectionType, OrgProfile } from '../types/connection.js';
+import { getEnvironmentOrgProfile } from './orgProfiles.js';
+import { getRuntimeConfig } from './config.js';
+import { logger } from './logger.js';
+import { createJwtBearerAssertion } from './jwt.js';
+import fs from 'fs';
+import http from 'http';
 import https from 'https';
 import querystring from 'querystring';
 
 /**
- * Creates a Salesforce connection using either username/password or OAuth 2.0 Client Credentials Flow
+ * Requests an access token from the Salesforce OAuth 2.0 token endpoint
+ * @param loginUrl Base URL of the Salesforce login or My Domain host
+ * @param params Form parameters for the token request (grant_type etc.)
+ * @returns Parsed token response containing access_token and instance_url
+ */
+export async function requestAccessToken(loginUrl: string, params: Record<string, string>): Promise<any> {
+  const tokenUrl = new URL('/services/oauth2/token', loginUrl);
+  const requestBody = querystring.stringify(params);
+
+  // Plain HTTP is only expected for local stand-ins of the token endpoint
+  const transport = tokenUrl.protocol === 'http:' ? http : https;
+
+  const { timeout } = getRuntimeConfig();
+
+  return new Promise<any>((resolve, reject) => {
+    const req = transport.request({
+      method: 'POST',
+      hostname: tokenUrl.hostname,
+      port: tokenUrl.port || undefined,
+      path: tokenUrl.pathname,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Content-Length': Buffer.byteLength(requestBody)
+      }
+    }, (res) => {
+      let data = '';
+      res.on('data', (chunk) => data += chunk);
+      res.on('end', () => {
+        try {
+          const parsed = JSON.parse(data);
+          if (res.statusCode !== 200) {
+            reject(new Error(`OAuth failed: ${parsed.error} - ${parsed.error_description}`));
+          } else {
+            resolve(parsed);
+          }
+        } catch (e: any) {
+          reject(new Error(`Failed to parse OAuth response: ${e.message}`));
+        }
+      });
+    });
+
+    req.setTimeout(timeout, () => {
+      req.destroy(new Error(`OAuth token request timed out after ${timeout}ms`));
+    });
+    req.on('error', reject);
+    req.end(requestBody);
+  });
+}
+
+/**
+ * Determines the `aud` claim for a JWT bearer assertion. Salesforce expects the generic
+ * login host rather than a My Domain URL, so sandboxes map to test.salesforce.com.
+ * @param loginUrl Configured Salesforce login or instance URL
+ * @returns Audience URL for the assertion
+ */
+function resolveJwtAudience(loginUrl: string): string {
+  if (process.env.SALESFORCE_JWT_AUDIENCE) {
+    return process.env.SALESFORCE_JWT_AUDIENCE;
+  }
+  const hostname = new URL(loginUrl).hostname;
+  if (hostname === 'test.salesforce.com' || hostname.endsWith('.sandbox.my.salesforce.com')) {
+    return 'https://test.salesforce.com';
+  }
+  if (hostname.endsWith('.salesforce.com')) {
+    return 'https://login.salesforce.com';
+  }
+  return new URL(loginUrl).origin;
+}
+
+/**
+ * Creates a jsforce Connection whose HTTP requests honor the configured timeout
+ * @param options jsforce Connection options
+ * @param apiVersion API version to use, if known before login
+ */
+function newConnection(options: Record<string, any>, apiVersion?: string) {
+  const conn = new jsforce.Connection({
+    ...options,
+    ...(apiVersion && { version: apiVersion })
+  });
+
+  // jsforce 1.x only reads a timeout from HTTP_TIMEOUT at load time, so apply it per request
+  const { timeout } = getRuntimeConfig();
+  const transport = conn._transport;
+  const httpRequest = transport.httpRequest.bind(transport);
+  transport.httpRequest = (params: any, callback?: any) => httpRequest({ timeout, ...params }, callback);
+
+  return conn;
+}
+
+/**
+ * Looks up the newest REST API version supported by the org
+ * @param conn Authenticated jsforce Connection
+ * @returns Version string without the "v" prefix (e.g. '61.0')
+ */
+async function detectLatestApiVersion(conn: any): Promise<string> {
+  const versions: Array<{ version: string }> = await conn.request('/services/data/');
+  const latest = versions
+    .map(v => v.version)
+    .sort((a, b) => parseFloat(a) - parseFloat(b))
+    .pop();
+
+  if (!latest) {
+    throw new Error('Could not determine the API versions supported by the org');
+  }
+  return latest;
+}
+
+/**
+ * Creates a Salesforce connection using username/password, OAuth 2.0 Client Credentials or JWT Bearer Flow
+ * @param profile Org credentials; defaults to the SALESFORCE_* environment variables set by the DXT manifest
  * @returns Connected jsforce Connection instance
  */
-export async function createSalesforceConnection() {
-  // Determine connection type from environment variables set by the DXT manifest
-  const connectionType = process.env.SALESFORCE_CONNECTION_TYPE as ConnectionType || ConnectionType.User_Password;
+export async function createSalesforceConnection(profile: OrgProfile = getEnvironmentOrgProfile()) {
+  const connectionType = profile.connectionType || ConnectionType.User_Password;
   
-  // Set login URL from environment variable or default
-  const loginUrl = process.env.SALESFORCE_INSTANCE_URL || 'https://login.salesforce.com';
+  // Set login URL from the profile or default
+  const loginUrl = profile.instanceUrl || 'https://login.salesforce.com';
+
+  // A per-org version wins over the global setting; neither means use the org's latest
+  const apiVersion = profile.apiVersion || getRuntimeConfig().apiVersion;
   
   try {
+    let conn: any;
+
     if (connectionType === ConnectionType.OAuth_2_0_Client_Credentials) {
       // OAuth 2.0 Client Credentials Flow
-      const clientId = process.env.SALESFORCE_CLIENT_ID;
-      const clientSecret = process.env.SALESFORCE_CLIENT_SECRET;
+      const { clientId, clientSecret } = profile;
       
       if (!clientId || !clientSecret) {
-        throw new Error('SALESFORCE_CLIENT_ID and SALESFORCE_CLIENT_SECRET are required for OAuth 2.0');
+        throw new Error('clientId and clientSecret (SALESFORCE_CLIENT_ID, SALESFORCE_CLIENT_SECRET) are required for OAuth 2.0');
       }
       
-      console.error('Connecting to Salesforce using OAuth 2.0 Client Credentials Flow');
-      
-      const tokenUrl = new URL('/services/oauth2/token', loginUrl);
+      logger.info('Connecting to Salesforce using OAuth 2.0 Client Credentials Flow');
       
-      const requestBody = querystring.stringify({
+      const tokenParams = {
         grant_type: 'client_credentials',
         client_id: clientId,
         client_secret: clientSecret
-      });
+      };
+      const tokenResponse = await requestAccessToken(loginUrl, tokenParams);
       
-      const tokenResponse = await new Promise<any>((resolve, reject) => {
-        const req = https.request({
-          method: 'POST',
-          hostname: tokenUrl.hostname,
-          path: tokenUrl.pathname,
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'Content-Length': Buffer.byteLength(requestBody)
-          }
-        }, (res) => {
-          let data = '';
-          res.on('data', (chunk) => data += chunk);
-          res.on('end', () => {
-            try {
-              const parsed = JSON.parse(data);
-              if (res.statusCode !== 200) {
-                reject(new Error(`OAuth failed: ${parsed.error} - ${parsed.error_description}`));
-              } else {
-                resolve(parsed);
-              }
-            } catch (e: any) {
-              reject(new Error(`Failed to parse OAuth response: ${e.message}`));
-            }
-          });
-        });
-        
-        req.on('error', reject);
-        req.end(requestBody);
-      });
-      
-      return new jsforce.Connection({
+      conn = newConnection({
         instanceUrl: tokenResponse.instance_url,
-        accessToken: tokenResponse.access_token
+        accessToken: tokenResponse.access_token,
+        // Client credentials issue no refresh token, so jsforce re-runs the exchange on INVALID_SESSION_ID
+        refreshFn: (_conn: any, callback: (err: Error | null, accessToken?: string, res?: any) => void) => {
+          requestAccessToken(loginUrl, tokenParams)
+            .then((res) => callback(null, res.access_token, res))
+            .catch((err) => callback(err));
+        }
+      }, apiVersion);
+
+    } else if (connectionType === ConnectionType.OAuth_2_0_JWT_Bearer) {
+      // OAuth 2.0 JWT Bearer Flow, the assertion is signed locally so no secret leaves the machine
+      const { clientId, privateKeyPath, username } = profile;
+
+      if (!clientId || !privateKeyPath || !username) {
+        throw new Error('clientId, privateKeyPath and username (SALESFORCE_CLIENT_ID, SALESFORCE_PRIVATE_KEY_PATH, SALESFORCE_USERNAME) are required for JWT Bearer authentication');
+      }
+
+      let privateKey: string;
+      try {
+        privateKey = fs.readFileSync(privateKeyPath, 'utf8');
+      } catch (e: any) {
+        throw new Error(`Failed to read private key from ${privateKeyPath}: ${e.message}`);
+      }
+
+      logger.info('Connecting to Salesforce using OAuth 2.0 JWT Bearer Flow');
+
+      const requestJwtToken = () => requestAccessToken(loginUrl, {
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: createJwtBearerAssertion({
+          issuer: clientId,
+          subject: username,
+          audience: resolveJwtAudience(loginUrl)
+        }, privateKey)
       });
+      const tokenResponse = await requestJwtToken();
+
+      conn = newConnection({
+        instanceUrl: tokenResponse.instance_url,
+        accessToken: tokenResponse.access_token,
+        // JWT bearer issues no refresh token either; a freshly signed assertion gets a new session
+        refreshFn: (_conn: any, callback: (err: Error | null, accessToken?: string, res?: any) => void) => {
+          requestJwtToken()
+            .then((res) => callback(null, res.access_token, res))
+            .catch((err) => callback(err));
+        }
+      }, apiVersion);
 
     } else {
       // Default: Username/Password Flow with Security Token
-      const username = process.env.SALESFORCE_USERNAME;
-      const password = process.env.SALESFORCE_PASSWORD;
-      const token = process.env.SALESFORCE_TOKEN;
+      const { username, password, securityToken: token } = profile;
       
       if (!username || !password) {
-        throw new Error('SALESFORCE_USERNAME and SALESFORCE_PASSWORD are required for Username/Password authentication');
+        throw new Error('username and password (SALESFORCE_USERNAME, SALESFORCE_PASSWORD) are required for Username/Password authentication');
       }
       
-      console.error('Connecting to Salesforce using Username/Password authentication');
+      logger.info('Connecting to Salesforce using Username/Password authentication');
       
-      const conn = new jsforce.Connection({ loginUrl });
+      conn = newConnection({ loginUrl }, apiVersion);
       
+      // jsforce registers its own re-login handler for expired sessions here
       await conn.login(
         username,
         password + (token || '')
       );
-      
-      return conn;
     }
+
+    conn.version = apiVersion || await detectLatestApiVersion(conn);
+    logger.debug(`Using Salesforce API version ${conn.version}`);
+
+    return conn;
   } catch (error) {
-    console.error('Error connecting to Salesforce:', error);
+    logger.error('Error connecting to Salesforce:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,138 @@
+import { createSalesforceConnection } from './connection.js';
+import { resolveOrgProfile } from './orgProfiles.js';
+import { ConnectionType } from '../types/connection.js';
+import { logger } from './logger.js';
+
+/**
+ * Snapshot of a cached Salesforce session kept by the connection manager
+ */
+export interface ConnectionState {
+  orgName: string;
+  status: 'disconnected' | 'connecting' | 'connected' | 'error';
+  connectionType: ConnectionType;
+  instanceUrl?: string;
+  apiVersion?: string;
+  userId?: string;
+  organizationId?: string;
+  connectedAt?: Date;
+  lastUsedAt?: Date;
+  lastRefreshedAt?: Date;
+  refreshCount: number;
+  lastError?: string;
+}
+
+interface ManagedConnection {
+  conn: any;
+  pending: Promise<any> | null;
+  state: ConnectionState;
+}
+
+// One session per named org profile
+const connections = new Map<string, ManagedConnection>();
+
+/**
+ * Checks whether an error was caused by an expired or revoked Salesforce session
+ * @param error Error thrown by jsforce or a tool handler
+ * @returns True if the session should be discarded and re-established
+ */
+export function isInvalidSessionError(error: unknown): boolean {
+  const err = error as { name?: string; errorCode?: string; message?: string } | null;
+  if (!err) return false;
+  return err.name === 'INVALID_SESSION_ID' ||
+    err.errorCode === 'INVALID_SESSION_ID' ||
+    String(err.message || '').includes('INVALID_SESSION_ID');
+}
+
+function getManagedConnection(orgName: string, connectionType: ConnectionType): ManagedConnection {
+  let managed = connections.get(orgName);
+  if (!managed) {
+    managed = {
+      conn: null,
+      pending: null,
+      state: { orgName, status: 'disconnected', connectionType, refreshCount: 0 }
+    };
+    connections.set(orgName, managed);
+  }
+  return managed;
+}
+
+async function connect(managed: ManagedConnection) {
+  const { state } = managed;
+  const { profile } = resolveOrgProfile(state.orgName);
+  state.status = 'connecting';
+  state.connectionType = profile.connectionType || ConnectionType.User_Password;
+
+  try {
+    const conn = await createSalesforceConnection(profile);
+
+    // jsforce emits 'refresh' whenever it transparently re-authenticates after INVALID_SESSION_ID
+    conn.on('refresh', () => {
+      state.lastRefreshedAt = new Date();
+      state.refreshCount++;
+      logger.info(`Salesforce session refreshed for org ${state.orgName}`);
+    });
+
+    managed.conn = conn;
+    state.status = 'connected';
+    state.instanceUrl = conn.instanceUrl;
+    state.apiVersion = conn.version;
+    state.userId = conn.userInfo?.id;
+    state.organizationId = conn.userInfo?.organizationId;
+    state.connectedAt = new Date();
+    state.lastError = undefined;
+    return conn;
+  } catch (error) {
+    state.status = 'error';
+    state.lastError = error instanceof Error ? error.message : String(error);
+    throw error;
+  }
+}
+
+/**
+ * Returns the shared connection for an org, logging in only when no session exists yet.
+ * Concurrent callers during login share the same pending attempt.
+ * @param orgName Named org profile; defaults to the configured default org
+ * @returns Connected jsforce Connection instance
+ */
+export async function getSalesforceConnection(orgName?: string) {
+  const { name, profile } = resolveOrgProfile(orgName);
+  const managed = getManagedConnection(name, profile.connectionType || ConnectionType.User_Password);
+
+  if (!managed.conn) {
+    if (!managed.pending) {
+      managed.pending = connect(managed).finally(() => {
+        managed.pending = null;
+      });
+    }
+    await managed.pending;
+  }
+
+  managed.state.lastUsedAt = new Date();
+  return managed.conn;
+}
+
+/**
+ * Discards the cached connection so the next call performs a fresh login
+ * @param orgName Named org profile; defaults to the configured default org
+ */
+export function resetSalesforceConnection(orgName?: string) {
+  const managed = connections.get(resolveOrgProfile(orgName).name);
+  if (!managed) return;
+
+  managed.conn = null;
+  managed.state.status = 'disconnected';
+  managed.state.instanceUrl = undefined;
+  managed.state.apiVersion = undefined;
+  managed.state.userId = undefined;
+  managed.state.organizationId = undefined;
+  managed.state.connectedAt = undefined;
+}
+
+/**
+ * Returns a copy of the connection state for an org
+ * @param orgName Named org profile; defaults to the configured default org
+ */
+export function getConnectionState(orgName?: string): ConnectionState {
+  const { name, profile } = resolveOrgProfile(orgName);
+  return { ...getManagedConnection(name, profile.connectionType || ConnectionType.User_Password).state };
+}
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { SalesforceDescribeResponse, SalesforceObject } from '../types/salesforce.js';
+import { getRuntimeConfig } from './config.js';
+import { logger } from './logger.js';
+
+export interface DescribeGlobalResponse {
+  encoding?: string;
+  maxBatchSize?: number;
+  sobjects: SalesforceObject[];
+}
+
+interface CachedDescribe<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+// Within this window cached results are used as-is; after it they are revalidated with If-Modified-Since
+const DESCRIBE_TTL_MS = 5 * 60 * 1000;
+const GLOBAL_ENTRY = 'global';
+
+const describeCache = new Map<string, CachedDescribe<any>>();
+
+// Cache entries are kept per org, user and API version: describes differ between versions and only
+// show the fields the running user can access. Connections made without a login lack userInfo until identity() runs
+async function orgKey(conn: any): Promise<string> {
+  if (!conn.userInfo?.id || !conn.userInfo?.organizationId) {
+    await conn.identity();
+  }
+  return `${conn.userInfo.organizationId}|${conn.userInfo.id}|${conn.version}`;
+}
+
+// Helper function to hash a key into a directory name
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+function objectEntry(objectName: string): string {
+  return `object.${objectName.toLowerCase()}`;
+}
+
+// Helper function to find the on-disk directory of an org instance, if disk caching is enabled.
+// It holds one subdirectory per user and API version
+function instanceDir(conn: any): string | undefined {
+  const { describeCacheDir } = getRuntimeConfig();
+  if (!describeCacheDir) return undefined;
+  return path.join(describeCacheDir, hashKey(conn.instanceUrl));
+}
+
+function cacheDir(conn: any, key: string): string | undefined {
+  const dir = instanceDir(conn);
+  return dir && path.join(dir, hashKey(key));
+}
+
+function cacheFile(dir: string, entry: string): string {
+  return path.join(dir, `${entry.replace(/[^a-z0-9_.-]/gi, '_')}.json`);
+}
+
+function readFromDisk<T>(conn: any, key: string, entry: string): CachedDescribe<T> | undefined {
+  const dir = cacheDir(conn, key);
+  if (!dir) return undefined;
+  const file = cacheFile(dir, entry);
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    const cached = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (cached && typeof cached.fetchedAt === 'number' && cached.data) return cached;
+  } catch (e: any) {
+    logger.warn(`Ignoring unreadable describe cache file ${file}: ${e.message}`);
+  }
+  return undefined;
+}
+
+function writeToDisk(conn: any, key: string, entry: string, cached: CachedDescribe<unknown>) {
+  const dir = cacheDir(conn, key);
+  if (!dir) return;
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(cacheFile(dir, entry), JSON.stringify(cached));
+  } catch (e: any) {
+    logger.warn(`Failed to save describe cache to ${dir}: ${e.message}`);
+  }
+}
+
+// Helper function to remove an entry for every user and API version of the org instance
+function removeFromDisk(conn: any, entry: string) {
+  const dir = instanceDir(conn);
+  if (!dir || !fs.existsSync(dir)) return;
+  for (const userDir of fs.readdirSync(dir)) {
+    fs.rmSync(cacheFile(path.join(dir, userDir), entry), { force: true });
+  }
+}
+
+// Fetches a describe resource, reusing the cached copy while it is fresh or the org reports it unchanged
+async function getDescribe<T>(conn: any, entry: string, url: string): Promise<T> {
+  const userKey = await orgKey(conn);
+  const key = `${conn.instanceUrl}|${userKey}|${entry}`;
+  const cached: CachedDescribe<T> | undefined = describeCache.get(key) ?? readFromDisk<T>(conn, userKey, entry);
+  if (cached && Date.now() - cached.fetchedAt < DESCRIBE_TTL_MS) {
+    describeCache.set(key, cached);
+    return cached.data;
+  }
+
+  const headers: Record<string, string> = {};
+  if (cached) {
+    headers['If-Modified-Since'] = new Date(cached.fetchedAt).toUTCString();
+  }
+  const response = await conn.request({ method: 'GET', url, headers });
+
+  // 304 Not Modified comes back with an empty body
+  const unchanged = cached && (!response || typeof response !== 'object');
+  if (unchanged) {
+    logger.debug(`Describe ${entry} unchanged since ${headers['If-Modified-Since']}`);
+  }
+  const fresh: CachedDescribe<T> = { data: unchanged ? cached.data : response as T, fetchedAt: Date.now() };
+  describeCache.set(key, fresh);
+  writeToDisk(conn, userKey, entry, fresh);
+  return fresh.data;
+}
+
+/**
+ * Lists the org's objects, reusing the cached list for the same org, user and API version
+ * @param conn Connected jsforce Connection
+ */
+export async function describeGlobal(conn: any): Promise<DescribeGlobalResponse> {
+  return getDescribe<DescribeGlobalResponse>(conn, GLOBAL_ENTRY, `/services/data/v${conn.version}/sobjects`);
+}
+
+/**
+ * Describes an object, reusing the cached result for the same org, user and API version
+ * @param conn Connected jsforce Connection
+ * @param objectName API name of the object
+ */
+export async function describeObject(conn: any, objectName: string): Promise<SalesforceDescribeResponse> {
+  return getDescribe<SalesforceDescribeResponse>(conn, objectEntry(objectName),
+    `/services/data/v${conn.version}/sobjects/${encodeURIComponent(objectName)}/describe`);
+}
+
+/**
+ * Drops the cached describe of an object and the object list for every user after its metadata changed
+ * @param conn Connected jsforce Connection
+ * @param objectName API name of the changed object
+ */
+export function invalidateDescribe(conn: any, objectName: string) {
+  for (const entry of [objectEntry(objectName), GLOBAL_ENTRY]) {
+    for (const key of describeCache.keys()) {
+      if (key.startsWith(`${conn.instanceUrl}|`) && key.endsWith(`|${entry}`)) describeCache.delete(key);
+    }
+    try {
+      removeFromDisk(conn, entry);
+    } catch (e: any) {
+      logger.warn(`Failed to remove cached describe of ${objectName}: ${e.message}`);
+    }
+  }
+}
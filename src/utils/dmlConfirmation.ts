@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+  /** Set while a commit holding the token is running */
+  reserved?: boolean;
+}
+
+// Dry-run tokens are only valid for a short while so stale previews cannot be committed
+const TOKEN_TTL_MS = 15 * 60 * 1000;
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+// Stable JSON so the same arguments always produce the same fingerprint regardless of key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function fingerprint(scope: string, payload: unknown): string {
+  return crypto.createHash('sha256').update(scope).update('\0').update(stableStringify(payload)).digest('hex');
+}
+
+/**
+ * Issues a single-use token tying a dry-run preview to the exact operation it showed
+ * @param scope Identifies the org the preview ran against (e.g. its instance URL)
+ * @param payload Arguments that must be repeated unchanged to commit
+ * @returns Token the committing call has to present
+ */
+export function issueConfirmationToken(scope: string, payload: unknown): string {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) pendingConfirmations.delete(token);
+  }
+
+  const token = `dryrun-${crypto.randomBytes(12).toString('hex')}`;
+  pendingConfirmations.set(token, { fingerprint: fingerprint(scope, payload), expiresAt: now + TOKEN_TTL_MS });
+  return token;
+}
+
+// Helper function to check a token against the arguments of the committing call without using it up
+function checkConfirmationToken(token: string, scope: string, payload: unknown): { isValid: boolean; error?: string } {
+  const pending = pendingConfirmations.get(token);
+  if (!pending) {
+    return { isValid: false, error: 'Unknown or already used confirmation token. Run the operation again with dryRun: true to get a new one.' };
+  }
+  if (pending.expiresAt <= Date.now()) {
+    pendingConfirmations.delete(token);
+    return { isValid: false, error: 'Confirmation token has expired. Run the operation again with dryRun: true to get a new one.' };
+  }
+  if (pending.fingerprint !== fingerprint(scope, payload)) {
+    return { isValid: false, error: 'Confirmation token was issued for different records or options. Repeat the exact previewed arguments, or run a new dry run.' };
+  }
+  if (pending.reserved) {
+    return { isValid: false, error: 'Confirmation token is being used by another call that has not finished yet.' };
+  }
+  return { isValid: true };
+}
+
+/**
+ * Checks a confirmation token against the arguments of the committing call and consumes it
+ * @returns isValid false with the reason when the token is unknown, expired or was issued for other arguments
+ */
+export function consumeConfirmationToken(token: string, scope: string, payload: unknown): { isValid: boolean; error?: string } {
+  const check = checkConfirmationToken(token, scope, payload);
+  if (check.isValid) pendingConfirmations.delete(token);
+  return check;
+}
+
+/**
+ * Checks a confirmation token like consumeConfirmationToken but holds it for the running commit instead of
+ * using it up, so a commit that never reached Salesforce can be retried with the same token
+ * @returns isValid false with the reason when the token is unknown, expired, in use or was issued for other arguments
+ */
+export function reserveConfirmationToken(token: string, scope: string, payload: unknown): { isValid: boolean; error?: string } {
+  const check = checkConfirmationToken(token, scope, payload);
+  if (check.isValid) pendingConfirmations.get(token)!.reserved = true;
+  return check;
+}
+
+/**
+ * Ends the reservation of a confirmation token
+ * @param token Token passed to reserveConfirmationToken
+ * @param used Whether the write was sent; the token is used up then, and valid again otherwise
+ */
+export function settleConfirmationToken(token: string, used: boolean) {
+  const pending = pendingConfirmations.get(token);
+  if (!pending) return;
+  if (used) pendingConfirmations.delete(token);
+  else pending.reserved = false;
+}
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getRuntimeConfig } from './config.js';
+import { logger } from './logger.js';
+
+/**
+ * What a DML call did to one record, with what is needed to undo it
+ */
+export interface JournalChange {
+  /** Record Id (for deletes, the Id the record had before it was deleted) */
+  id: string;
+  action: 'created' | 'updated' | 'deleted';
+  /** Prior values of the written fields (updates) or the full record (deletes) */
+  before?: Record<string, unknown>;
+}
+
+export interface JournalEntry {
+  id: string;
+  /** Instance URL of the org the operation ran against */
+  org: string;
+  createdAt: string;
+  operation: string;
+  objectName: string;
+  changes: JournalChange[];
+  revertedAt?: string;
+}
+
+// Oldest entries are dropped beyond this so the journal stays small
+const MAX_JOURNAL_ENTRIES = 100;
+
+let journal: JournalEntry[] | null = null;
+
+function loadJournal(): JournalEntry[] {
+  if (journal) return journal;
+
+  journal = [];
+  const journalPath = getRuntimeConfig().dmlJournalPath;
+  if (journalPath && fs.existsSync(journalPath)) {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(journalPath, 'utf8'));
+      if (Array.isArray(parsed)) journal = parsed;
+    } catch (e: any) {
+      logger.warn(`Ignoring unreadable DML journal ${journalPath}: ${e.message}`);
+    }
+  }
+  return journal;
+}
+
+function saveJournal() {
+  const journalPath = getRuntimeConfig().dmlJournalPath;
+  if (!journalPath || !journal) return;
+  try {
+    fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+    fs.writeFileSync(journalPath, JSON.stringify(journal, null, 2), { mode: 0o600 });
+  } catch (e: any) {
+    logger.warn(`Failed to save DML journal to ${journalPath}: ${e.message}`);
+  }
+}
+
+/**
+ * Records a completed DML operation so it can be reverted later
+ * @returns The stored entry, including its generated id
+ */
+export function addJournalEntry(entry: Omit<JournalEntry, 'id' | 'createdAt'>): JournalEntry {
+  const entries = loadJournal();
+  const stored: JournalEntry = {
+    id: `dml-${crypto.randomBytes(4).toString('hex')}`,
+    createdAt: new Date().toISOString(),
+    ...entry
+  };
+  entries.push(stored);
+  entries.splice(0, Math.max(0, entries.length - MAX_JOURNAL_ENTRIES));
+  saveJournal();
+  return stored;
+}
+
+/**
+ * Lists journal entries for an org, newest first
+ */
+export function listJournalEntries(org: string): JournalEntry[] {
+  return loadJournal().filter(entry => entry.org === org).reverse();
+}
+
+/**
+ * Finds a journal entry by id
+ */
+export function getJournalEntry(id: string): JournalEntry | undefined {
+  return loadJournal().find(entry => entry.id === id);
+}
+
+/**
+ * Marks an entry as reverted so it is not undone twice
+ */
+export function markJournalEntryReverted(id: string) {
+  const entry = getJournalEntry(id);
+  if (!entry) return;
+  entry.revertedAt = new Date().toISOString();
+  saveJournal();
+}
@@ -0,0 +1,204 @@
+import { SalesforceDescribeResponse, SalesforceField } from '../types/salesforce.js';
+import { editDistance } from './fuzzyMatch.js';
+
+/**
+ * A problem found in one record of a DML payload. Errors would be rejected by Salesforce;
+ * warnings are sent anyway but likely not what was intended.
+ */
+export interface RecordIssue {
+  /** Position of the record in the payload (0-based) */
+  index: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export type ValidatedOperation = 'insert' | 'update' | 'upsert';
+
+const ID_PATTERN = /^[a-zA-Z0-9]{15}([a-zA-Z0-9]{3})?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?Z?$/;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+const TEXT_TYPES = ['string', 'textarea', 'email', 'phone', 'url', 'encryptedstring', 'combobox'];
+const NUMBER_TYPES = ['double', 'currency', 'percent'];
+
+// Helper function to suggest the closest field name for a typo
+function suggestField(name: string, fields: SalesforceField[]): string | undefined {
+  const lower = name.toLowerCase();
+  let best: { name: string; distance: number } | undefined;
+  for (const field of fields) {
+    const distance = editDistance(lower, field.name.toLowerCase());
+    if (!best || distance < best.distance) best = { name: field.name, distance };
+  }
+  return best && best.distance <= Math.max(2, Math.floor(name.length / 4)) ? best.name : undefined;
+}
+
+// Helper function to check one value against the field's type; returns a problem description or null
+function checkValue(field: SalesforceField, value: unknown): { severity: RecordIssue['severity']; message: string } | null {
+  const type = field.type.toLowerCase();
+  const text = typeof value === 'string' ? value : undefined;
+
+  if (typeof value === 'object') {
+    return { severity: 'error', message: `${field.name}: expects a ${type} value, got ${Array.isArray(value) ? 'an array' : 'an object'}` };
+  }
+
+  switch (type) {
+    case 'boolean':
+      if (typeof value === 'boolean') return null;
+      if (text !== undefined && /^(true|false)$/i.test(text)) return null;
+      return { severity: 'error', message: `${field.name}: expects true or false, got ${JSON.stringify(value)}` };
+    case 'int':
+      if (value === '' || !Number.isInteger(Number(value))) {
+        return { severity: 'error', message: `${field.name}: expects a whole number, got ${JSON.stringify(value)}` };
+      }
+      return null;
+    case 'date':
+      if (text === undefined || !DATE_PATTERN.test(text) || isNaN(Date.parse(text))) {
+        return { severity: 'error', message: `${field.name}: expects a date as YYYY-MM-DD, got ${JSON.stringify(value)}` };
+      }
+      return null;
+    case 'datetime':
+      if (text === undefined || !DATETIME_PATTERN.test(text) || isNaN(Date.parse(text))) {
+        return { severity: 'error', message: `${field.name}: expects a date/time as YYYY-MM-DDThh:mm:ssZ, got ${JSON.stringify(value)}` };
+      }
+      return null;
+    case 'time':
+      if (text === undefined || !TIME_PATTERN.test(text)) {
+        return { severity: 'error', message: `${field.name}: expects a time as hh:mm:ss.sssZ, got ${JSON.stringify(value)}` };
+      }
+      return null;
+    case 'reference':
+    case 'id':
+      if (text === undefined || !ID_PATTERN.test(text)) {
+        return { severity: 'error', message: `${field.name}: expects a 15 or 18 character record Id, got ${JSON.stringify(value)}` };
+      }
+      return null;
+    case 'picklist':
+    case 'multipicklist': {
+      const allowed = field.picklistValues.filter(entry => entry.active !== false).map(entry => entry.value);
+      const values = type === 'multipicklist' ? String(value).split(';') : [String(value)];
+      const invalid = values.filter(entry => !allowed.includes(entry));
+      if (invalid.length === 0 || allowed.length === 0) return null;
+      return {
+        // Unrestricted picklists accept new values, but they are usually typos
+        severity: field.restrictedPicklist ? 'error' : 'warning',
+        message: `${field.name}: ${invalid.map(entry => JSON.stringify(entry)).join(', ')} is not an active picklist value (allowed: ${allowed.join(', ')})`
+      };
+    }
+  }
+
+  if (NUMBER_TYPES.includes(type) && (value === '' || isNaN(Number(value)))) {
+    return { severity: 'error', message: `${field.name}: expects a number, got ${JSON.stringify(value)}` };
+  }
+  if (TEXT_TYPES.includes(type)) {
+    if (field.length && String(value).length > field.length) {
+      return { severity: 'error', message: `${field.name}: ${String(value).length} characters exceeds the maximum length of ${field.length}` };
+    }
+    if (type === 'email' && !EMAIL_PATTERN.test(String(value))) {
+      return { severity: 'error', message: `${field.name}: ${JSON.stringify(value)} is not a valid email address` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks DML records against the object's describe: unknown fields, fields that cannot be written
+ * by the operation, value types, picklist values and missing required fields
+ * @param describe Describe result of the target object
+ * @param operation Operation the records are sent with
+ * @param records Records as passed to the DML tool
+ * @param externalIdField External ID field for upsert
+ * @returns Every problem found, in record order
+ */
+export function validateDMLRecords(
+  describe: SalesforceDescribeResponse,
+  operation: ValidatedOperation,
+  records: Record<string, any>[],
+  externalIdField?: string
+): RecordIssue[] {
+  const issues: RecordIssue[] = [];
+  const fieldsByName = new Map(describe.fields.map(field => [field.name.toLowerCase(), field]));
+  const fieldsByRelationship = new Map(describe.fields
+    .filter(field => field.relationshipName)
+    .map(field => [field.relationshipName!.toLowerCase(), field]));
+
+  // Fields that must be set when a record is created
+  const requiredFields = describe.fields.filter(field =>
+    field.createable && !field.nillable && !field.defaultedOnCreate && field.type !== 'boolean');
+
+  records.forEach((record, index) => {
+    const add = (severity: RecordIssue['severity'], message: string) => issues.push({ index, severity, message });
+    const providedFields = new Set<string>();
+
+    for (const [name, value] of Object.entries(record)) {
+      if (name === 'attributes') continue;
+      if (name.toLowerCase() === 'id') {
+        if (operation === 'insert') add('error', 'Id: must not be set when inserting');
+        else if (value !== undefined && !ID_PATTERN.test(String(value))) add('error', `Id: ${JSON.stringify(value)} is not a valid record Id`);
+        continue;
+      }
+
+      const field = fieldsByName.get(name.toLowerCase());
+      if (!field) {
+        // Parent references by external ID are written as { RelationshipName: { ExternalId__c: value } }
+        const relationship = fieldsByRelationship.get(name.toLowerCase());
+        if (relationship && value !== null && typeof value === 'object') {
+          providedFields.add(relationship.name.toLowerCase());
+          continue;
+        }
+        const suggestion = suggestField(name, describe.fields);
+        add('error', `${name}: no such field on ${describe.name}${suggestion ? ` (did you mean ${suggestion}?)` : ''}`);
+        continue;
+      }
+
+      // The external ID identifies the record in an upsert; it is not written as a change
+      const isUpsertKey = operation === 'upsert' && field.name.toLowerCase() === externalIdField?.toLowerCase();
+      if (operation === 'insert' && !field.createable) {
+        add('error', `${field.name}: field is not createable`);
+      } else if (operation === 'update' && !field.updateable) {
+        add('error', `${field.name}: field is not updateable`);
+      } else if (operation === 'upsert' && !isUpsertKey) {
+        if (!field.createable && !field.updateable) add('error', `${field.name}: field is not writable`);
+        else if (!field.createable) add('warning', `${field.name}: field is not createable, so records that get inserted will fail`);
+        else if (!field.updateable) add('warning', `${field.name}: field is not updateable, so records that match an existing record will fail`);
+      }
+
+      if (value === null || value === undefined || value === '') {
+        if (!field.nillable && field.type !== 'boolean' && operation !== 'insert') {
+          add('error', `${field.name}: is required and cannot be cleared`);
+        }
+        continue;
+      }
+      providedFields.add(field.name.toLowerCase());
+
+      const problem = checkValue(field, value);
+      if (problem) add(problem.severity, problem.message);
+    }
+
+    if (operation === 'update' && !record.Id) {
+      add('error', 'Id: required for update');
+    }
+    if (operation === 'insert' || operation === 'upsert') {
+      const missing = requiredFields.filter(field => !providedFields.has(field.name.toLowerCase()));
+      if (missing.length > 0) {
+        // Upserted records that match an existing record keep their current values
+        add(operation === 'insert' ? 'error' : 'warning',
+          `Missing required fields${operation === 'upsert' ? ' (needed if the record is inserted)' : ''}: ${missing.map(field => field.name).join(', ')}`);
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Formats validation issues grouped by record
+ */
+export function formatRecordIssues(issues: RecordIssue[]): string {
+  const byRecord = new Map<number, RecordIssue[]>();
+  issues.forEach(issue => byRecord.set(issue.index, [...(byRecord.get(issue.index) || []), issue]));
+  return [...byRecord.entries()]
+    .map(([index, recordIssues]) => `Record ${index + 1}:\n` +
+      recordIssues.map(issue => `  - ${issue.severity === 'error' ? 'Error' : 'Warning'}: ${issue.message}`).join('\n'))
+    .join('\n');
+}
@@ -0,0 +1,121 @@
+/**
+ * What happens to the existing data when a field changes from one type to another
+ */
+export interface FieldConversion {
+  /** Whether Salesforce allows the conversion at all */
+  allowed: boolean;
+  /** Why the conversion is not allowed */
+  reason?: string;
+  /** Effect on every existing value, when the conversion changes all of them the same way */
+  effect?: string;
+  /** Checks one existing value; returns what happens to it when it does not survive unchanged */
+  check?: (value: unknown) => string | undefined;
+}
+
+const NUMBER_PATTERN = /^\s*[-+]?\d+(\.\d+)?\s*$/;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// Maximum lengths of the text-like types whose length cannot be chosen
+const FIXED_LENGTHS: Record<string, number> = {
+  TextArea: 255,
+  Email: 80,
+  Phone: 40,
+  Url: 255
+};
+
+// Field types each type can be converted to, following Salesforce's rules for changing custom field types
+const ALLOWED_CONVERSIONS: Record<string, string[]> = {
+  Text: ['TextArea', 'LongTextArea', 'Email', 'Phone', 'Url', 'Number', 'Currency', 'Percent', 'Picklist', 'MultiselectPicklist', 'AutoNumber'],
+  TextArea: ['Text', 'LongTextArea', 'Email', 'Phone', 'Url', 'Picklist', 'MultiselectPicklist'],
+  LongTextArea: ['Text', 'TextArea', 'Email', 'Phone', 'Url'],
+  Html: ['LongTextArea'],
+  Email: ['Text', 'TextArea', 'LongTextArea', 'Url'],
+  Phone: ['Text', 'TextArea', 'LongTextArea'],
+  Url: ['Text', 'TextArea', 'LongTextArea'],
+  Number: ['Currency', 'Percent', 'Text'],
+  Currency: ['Number', 'Percent', 'Text'],
+  Percent: ['Number', 'Currency', 'Text'],
+  Date: ['DateTime', 'Text'],
+  DateTime: ['Date', 'Text'],
+  Picklist: ['MultiselectPicklist', 'Text', 'TextArea'],
+  MultiselectPicklist: ['Picklist', 'Text', 'TextArea'],
+  AutoNumber: ['Text'],
+  Lookup: ['MasterDetail'],
+  MasterDetail: ['Lookup']
+};
+
+// Types Salesforce never converts, with the reason shown to the user
+const FIXED_TYPES: Record<string, string> = {
+  Formula: 'formula fields cannot be converted to another type; change the formula or returnType with update instead',
+  Summary: 'roll-up summary fields cannot be converted to another type',
+  Location: 'geolocation fields cannot be converted to another type',
+  EncryptedText: 'encrypted text fields cannot be converted to another type',
+  Checkbox: 'checkbox fields cannot be converted to another type'
+};
+
+// Helper function to check a text value against the maximum length of the new type
+function lengthCheck(maxLength: number) {
+  return (value: unknown) => String(value).length > maxLength
+    ? `longer than ${maxLength} characters, will be truncated`
+    : undefined;
+}
+
+/**
+ * Looks up whether a field can change type and how its existing values are affected
+ * @param fromType Current Metadata API type, or 'Formula' for formula fields
+ * @param toType Requested Metadata API type
+ * @param length Length of the new field, for Text targets
+ */
+export function getFieldConversion(fromType: string, toType: string, length?: number): FieldConversion {
+  if (FIXED_TYPES[fromType]) {
+    return { allowed: false, reason: FIXED_TYPES[fromType] };
+  }
+  if (toType === 'Formula' || toType === 'Summary') {
+    return { allowed: false, reason: 'existing fields cannot be turned into formula or roll-up summary fields; create a new field instead' };
+  }
+  if (!(ALLOWED_CONVERSIONS[fromType] || []).includes(toType)) {
+    const targets = ALLOWED_CONVERSIONS[fromType] || [];
+    return {
+      allowed: false,
+      reason: `${fromType} fields cannot be converted to ${toType}` +
+        (targets.length > 0 ? ` (possible types: ${targets.join(', ')})` : '')
+    };
+  }
+
+  switch (toType) {
+    case 'Number':
+    case 'Currency':
+    case 'Percent':
+      if (['Number', 'Currency', 'Percent'].includes(fromType)) return { allowed: true };
+      return { allowed: true, check: value => NUMBER_PATTERN.test(String(value)) ? undefined : 'not a number, will be cleared' };
+    case 'Email':
+      return {
+        allowed: true,
+        check: value => EMAIL_PATTERN.test(String(value)) ? lengthCheck(FIXED_LENGTHS.Email)(value) : 'not an email address, will be cleared'
+      };
+    case 'Text':
+      return { allowed: true, check: lengthCheck(length || 255) };
+    case 'TextArea':
+    case 'Phone':
+    case 'Url':
+      return { allowed: true, check: lengthCheck(FIXED_LENGTHS[toType]) };
+    case 'LongTextArea':
+      return fromType === 'Html'
+        ? { allowed: true, check: value => /<[a-z][^>]*>/i.test(String(value)) ? 'rich text formatting will be removed' : undefined }
+        : { allowed: true };
+    case 'Date':
+      return { allowed: true, effect: 'the time of day is dropped from every value' };
+    case 'Picklist':
+      return fromType === 'MultiselectPicklist'
+        ? { allowed: true, check: value => String(value).includes(';') ? 'has several values selected, only one can be kept' : undefined }
+        : { allowed: true, effect: 'existing values are kept and become values of the picklist' };
+    case 'AutoNumber':
+      return { allowed: true, effect: 'every existing value is replaced by a generated number' };
+    case 'MasterDetail':
+      return { allowed: true, effect: 'every record must have a value; deleting a parent record will delete its children' };
+    case 'Lookup':
+      return { allowed: true, effect: 'roll-up summary fields on the parent that use this relationship must be deleted first' };
+    default:
+      return { allowed: true };
+  }
+}
@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+
+/**
+ * Claims for a Salesforce OAuth 2.0 JWT bearer assertion
+ */
+export interface JwtBearerClaims {
+  /** Consumer key of the connected app */
+  issuer: string;
+  /** Username of the Salesforce user to authorize as */
+  subject: string;
+  /** Login host the token is requested from (e.g. https://login.salesforce.com) */
+  audience: string;
+  /** Lifetime of the assertion in seconds (Salesforce allows at most 3 minutes) */
+  expiresIn?: number;
+}
+
+function base64UrlEncode(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+/**
+ * Builds and signs an RS256 JWT assertion locally with the connected app's private key
+ * @param claims Issuer, subject and audience of the assertion
+ * @param privateKey PEM encoded RSA private key matching the connected app certificate
+ * @returns Compact serialized JWT ready to send as the `assertion` parameter
+ */
+export function createJwtBearerAssertion(claims: JwtBearerClaims, privateKey: string): string {
+  const header = { alg: 'RS256', typ: 'JWT' };
+  const payload = {
+    iss: claims.issuer,
+    sub: claims.subject,
+    aud: claims.audience,
+    exp: Math.floor(Date.now() / 1000) + (claims.expiresIn ?? 180)
+  };
+
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  const signature = crypto.createSign('RSA-SHA256').update(signingInput).sign(privateKey);
+
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
@@ -0,0 +1,20 @@
+import { getRuntimeConfig, LogLevel } from './config.js';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
+
+// stdout carries the MCP protocol, so all diagnostics go to stderr
+function write(level: LogLevel, args: unknown[]) {
+  if (LEVEL_ORDER[level] <= LEVEL_ORDER[getRuntimeConfig().logLevel]) {
+    console.error(...args);
+  }
+}
+
+/**
+ * Diagnostics logger honoring the configured SALESFORCE_LOG_LEVEL
+ */
+export const logger = {
+  error: (...args: unknown[]) => write('error', args),
+  warn: (...args: unknown[]) => write('warn', args),
+  info: (...args: unknown[]) => write('info', args),
+  debug: (...args: unknown[]) => write('debug', args),
+};
@@ -0,0 +1,122 @@
+/**
+ * Metadata API reads collapse single-element lists into a plain value and omit empty ones;
+ * this turns such a value back into a list
+ */
+export function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null || (value as unknown) === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Reads one metadata component, returning undefined when it does not exist
+ * @param conn Connected jsforce Connection
+ * @param type Metadata type (e.g. 'Layout')
+ * @param fullName Full name of the component
+ */
+export async function readMetadata(conn: any, type: string, fullName: string): Promise<any | undefined> {
+  const result: any = await conn.metadata.read(type, [fullName]);
+  const component = Array.isArray(result) ? result[0] : result;
+  // Missing components come back as an empty object with no fullName
+  return component && component.fullName ? component : undefined;
+}
+
+/**
+ * Checks a create/update/delete save result and returns the error text when it failed
+ */
+export function getSaveError(result: any): string | undefined {
+  const saveResult = Array.isArray(result) ? result[0] : result;
+  if (saveResult && (saveResult.success === true || saveResult.success === 'true')) return undefined;
+  const errors = asArray<any>(saveResult?.errors);
+  return errors.length > 0
+    ? errors.map(error => `${error.message}${error.statusCode ? ` [${error.statusCode}]` : ''}`).join('; ')
+    : 'Unknown error';
+}
+
+/**
+ * A metadata component that references another one, as reported by the dependency API
+ */
+export interface MetadataReference {
+  id: string;
+  name: string;
+  type: string;
+}
+
+// Referencing components that make Salesforce refuse to delete or retype what they reference
+export const BLOCKING_REFERENCE_TYPES = ['ApexClass', 'ApexTrigger', 'ApexPage', 'ApexComponent', 'CustomField', 'ValidationRule'];
+
+// Apex that references an object has to be changed before Salesforce lets the object be deleted
+export const APEX_REFERENCE_TYPES = ['ApexClass', 'ApexTrigger', 'ApexPage', 'ApexComponent'];
+
+const REFERENCE_TYPE_LABELS: Record<string, string> = {
+  ApexClass: 'Apex classes',
+  ApexTrigger: 'Apex triggers',
+  ApexPage: 'Visualforce pages',
+  ApexComponent: 'Visualforce components',
+  CustomField: 'Formula fields',
+  ValidationRule: 'Validation rules',
+  Layout: 'Page layouts',
+  Flow: 'Flows',
+  WorkflowRule: 'Workflow rules',
+  WorkflowFieldUpdate: 'Workflow field updates'
+};
+
+/**
+ * Resolves the durable Id of an object (the CustomObject Id for custom objects, the API name for standard ones)
+ * @param conn Connected jsforce Connection
+ * @param objectName API name of the object
+ * @returns The Id, or undefined when the object does not exist
+ */
+export async function getObjectDurableId(conn: any, objectName: string): Promise<string | undefined> {
+  const entity = await conn.tooling.query(`SELECT DurableId FROM EntityDefinition WHERE QualifiedApiName = '${objectName}'`);
+  return entity.records[0]?.DurableId;
+}
+
+/**
+ * Resolves the Tooling API Id of a custom field
+ * @param conn Connected jsforce Connection
+ * @param objectName API name of the object
+ * @param fieldName API name of the field (e.g. 'Region__c')
+ * @returns The CustomField Id, or undefined when the field does not exist
+ */
+export async function getCustomFieldId(conn: any, objectName: string, fieldName: string): Promise<string | undefined> {
+  const objectId = await getObjectDurableId(conn, objectName);
+  if (!objectId) return undefined;
+
+  // DeveloperName has neither the namespace prefix nor the __c suffix
+  const developerName = fieldName.replace(/__c$/i, '').replace(/^[A-Za-z0-9]+__/, '');
+  const field = await conn.tooling.query(
+    `SELECT Id FROM CustomField WHERE TableEnumOrId = '${objectId}' AND DeveloperName = '${developerName}'`
+  );
+  return field.records[0]?.Id;
+}
+
+/**
+ * Lists the components (Apex, formulas, layouts, flows...) that reference a metadata component
+ * @param conn Connected jsforce Connection
+ * @param componentId Id of the referenced component (e.g. a CustomField or CustomObject Id)
+ */
+export async function findReferences(conn: any, componentId: string): Promise<MetadataReference[]> {
+  const result = await conn.tooling.query(
+    `SELECT MetadataComponentId, MetadataComponentName, MetadataComponentType FROM MetadataComponentDependency WHERE RefMetadataComponentId = '${componentId}'`
+  );
+  return result.records.map((record: any) => ({
+    id: record.MetadataComponentId,
+    name: record.MetadataComponentName,
+    type: record.MetadataComponentType
+  }));
+}
+
+/**
+ * Formats references grouped by component type, one line per type
+ */
+export function formatReferences(references: MetadataReference[]): string {
+  const byType = new Map<string, string[]>();
+  for (const reference of references) {
+    const names = byType.get(reference.type) || [];
+    names.push(reference.name);
+    byType.set(reference.type, names);
+  }
+  return [...byType.entries()]
+    .map(([type, names]) => `  ${REFERENCE_TYPE_LABELS[type] || type}: ${[...new Set(names)].sort().join(', ')}`)
+    .join('\n');
+}
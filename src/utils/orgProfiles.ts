@@ -0,0 +1,93 @@
+import fs from 'fs';
+import { ConnectionType, OrgProfile, OrgProfilesConfig } from '../types/connection.js';
+
+/**
+ * Name of the profile built from the SALESFORCE_* environment variables
+ */
+export const ENVIRONMENT_ORG = 'default';
+
+let cachedProfiles: OrgProfilesConfig | null = null;
+
+/**
+ * Builds an org profile from the SALESFORCE_* environment variables set by the DXT manifest
+ */
+export function getEnvironmentOrgProfile(): OrgProfile {
+  return {
+    connectionType: process.env.SALESFORCE_CONNECTION_TYPE as ConnectionType || ConnectionType.User_Password,
+    instanceUrl: process.env.SALESFORCE_INSTANCE_URL || undefined,
+    username: process.env.SALESFORCE_USERNAME || undefined,
+    password: process.env.SALESFORCE_PASSWORD || undefined,
+    securityToken: process.env.SALESFORCE_TOKEN || undefined,
+    clientId: process.env.SALESFORCE_CLIENT_ID || undefined,
+    clientSecret: process.env.SALESFORCE_CLIENT_SECRET || undefined,
+    privateKeyPath: process.env.SALESFORCE_PRIVATE_KEY_PATH || undefined
+  };
+}
+
+function hasCredentials(profile: OrgProfile): boolean {
+  return Boolean(profile.username || profile.clientId);
+}
+
+function readProfilesFile(configPath: string): OrgProfilesConfig {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (e: any) {
+    throw new Error(`Failed to read org profiles from ${configPath}: ${e.message}`);
+  }
+
+  if (!parsed || typeof parsed.orgs !== 'object' || Array.isArray(parsed.orgs)) {
+    throw new Error(`Org profiles file ${configPath} must contain an "orgs" object keyed by org name`);
+  }
+  return parsed as OrgProfilesConfig;
+}
+
+/**
+ * Loads the named org profiles. Profiles come from the JSON file referenced by
+ * SALESFORCE_ORGS_CONFIG, plus a "default" profile built from the environment
+ * whenever credentials are configured there.
+ * @returns Org profiles keyed by name, with the resolved default org
+ */
+export function loadOrgProfiles(): OrgProfilesConfig {
+  if (cachedProfiles) return cachedProfiles;
+
+  const configPath = process.env.SALESFORCE_ORGS_CONFIG;
+  const fileConfig: OrgProfilesConfig = configPath ? readProfilesFile(configPath) : { orgs: {} };
+
+  const orgs: Record<string, OrgProfile> = { ...fileConfig.orgs };
+  const environmentProfile = getEnvironmentOrgProfile();
+  if (!orgs[ENVIRONMENT_ORG] && (hasCredentials(environmentProfile) || Object.keys(orgs).length === 0)) {
+    orgs[ENVIRONMENT_ORG] = environmentProfile;
+  }
+
+  const defaultOrg = fileConfig.defaultOrg || (orgs[ENVIRONMENT_ORG] ? ENVIRONMENT_ORG : Object.keys(orgs)[0]);
+  if (!orgs[defaultOrg]) {
+    throw new Error(`Default org "${defaultOrg}" is not defined in the org profiles`);
+  }
+
+  cachedProfiles = { defaultOrg, orgs };
+  return cachedProfiles;
+}
+
+/**
+ * Returns the names of all configured org profiles
+ */
+export function listOrgNames(): string[] {
+  return Object.keys(loadOrgProfiles().orgs);
+}
+
+/**
+ * Resolves the profile to use for a tool call
+ * @param orgName Optional org name from the tool arguments; falls back to the default org
+ * @returns The org name and its profile
+ */
+export function resolveOrgProfile(orgName?: string): { name: string; profile: OrgProfile } {
+  const { defaultOrg, orgs } = loadOrgProfiles();
+  const name = orgName || defaultOrg!;
+  const profile = orgs[name];
+
+  if (!profile) {
+    throw new Error(`Unknown org "${name}". Available orgs: ${Object.keys(orgs).join(', ')}`);
+  }
+  return { name, profile };
+}
@@ -0,0 +1,92 @@
+export type OutputFormat = 'text' | 'json' | 'csv' | 'markdown';
+
+/**
+ * Shared inputSchema property for tools that can return structured results
+ */
+export const OUTPUT_FORMAT_PROPERTY = {
+  type: "string",
+  enum: ["text", "json", "csv", "markdown"],
+  description: "Result format: text (default, readable listing), json (typed values and nulls, returned as structured content), csv (for spreadsheets) or markdown (table)",
+  optional: true
+};
+
+/**
+ * Reads a dot-notation path (e.g. "Account.Owner.Name") from a record
+ * @returns The value, or null when any part of the path is missing
+ */
+export function getFieldValue(record: any, path: string): unknown {
+  let value = record;
+  for (const part of path.split('.')) {
+    if (value === null || value === undefined) return null;
+    value = value[part];
+  }
+  return value === undefined ? null : value;
+}
+
+/**
+ * Converts an API record to plain JSON: drops `attributes` and turns child
+ * relationship result sets into arrays of records
+ */
+export function toPlainRecord(record: any): any {
+  if (record === null || typeof record !== 'object') return record;
+  if (Array.isArray(record)) return record.map(toPlainRecord);
+  if (Array.isArray(record.records) && 'totalSize' in record) {
+    return record.records.map(toPlainRecord);
+  }
+
+  const plain: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (key === 'attributes') continue;
+    plain[key] = toPlainRecord(value);
+  }
+  return plain;
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') {
+    const childRecords = (value as any).records;
+    // Child relationship result sets are summarized as their record count
+    if (Array.isArray(childRecords)) return String((value as any).totalSize ?? childRecords.length);
+    return JSON.stringify(toPlainRecord(value));
+  }
+  return String(value);
+}
+
+/**
+ * Renders rows as RFC 4180 CSV; nulls become empty cells
+ */
+export function toCsv(columns: string[], rows: unknown[][]): string {
+  const escape = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return [columns, ...rows.map(row => row.map(formatCell))]
+    .map(row => row.map(escape).join(','))
+    .join('\n');
+}
+
+/**
+ * Renders rows as a GitHub-flavored markdown table
+ */
+export function toMarkdownTable(columns: string[], rows: unknown[][]): string {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const lines = [
+    `| ${columns.map(escape).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell => escape(formatCell(cell))).join(' | ')} |`)
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Builds a tool response carrying JSON as MCP structured content, with the same
+ * JSON serialized in a text block for clients that do not read structured content
+ */
+export function structuredResponse(data: Record<string, unknown>) {
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(data, null, 2)
+    }],
+    structuredContent: data,
+    isError: false,
+  };
+}
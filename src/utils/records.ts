@@ -0,0 +1,124 @@
+import { DMLResult } from '../types/salesforce.js';
+
+// Keeps IN-clause queries well below the REST URL length limit
+const KEYS_PER_QUERY = 100;
+
+/**
+ * Escapes a value for use inside a SOQL string literal
+ */
+export function soqlLiteral(value: unknown): string {
+  return `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Normalizes a key value the way Salesforce matches it: Ids on their case-sensitive 15-character form
+ * (so 15- and 18-character Ids of a record are equal), external IDs regardless of case
+ * @param keyField Field the value belongs to
+ * @param value Key value
+ */
+export function normalizeRecordKey(keyField: string, value: unknown): string {
+  const text = String(value);
+  return keyField.toLowerCase() === 'id' ? text.slice(0, 15) : text.toLowerCase();
+}
+
+/**
+ * Fetches the current values of records matched on a key field (Id or an external ID)
+ * @param conn Connected jsforce Connection
+ * @param objectName API name of the object
+ * @param keyField Field the keys are matched against
+ * @param keys Key values; blanks and duplicates are ignored
+ * @param fields Fields to read in addition to Id and the key field
+ * @returns Records by their key value, normalized with normalizeRecordKey
+ */
+export async function fetchRecordsByKey(conn: any, objectName: string, keyField: string, keys: unknown[], fields: string[]) {
+  const current = new Map<string, any>();
+  const keysByNormalized = new Map<string, string>();
+  keys.filter(key => key !== undefined && key !== null && key !== '')
+    .forEach(key => keysByNormalized.set(normalizeRecordKey(keyField, key), String(key)));
+  const uniqueKeys = [...keysByNormalized.values()];
+  const selectFields = [...new Set(['Id', keyField, ...fields])];
+
+  for (let i = 0; i < uniqueKeys.length; i += KEYS_PER_QUERY) {
+    const chunk = uniqueKeys.slice(i, i + KEYS_PER_QUERY);
+    let result = await conn.query(
+      `SELECT ${selectFields.join(', ')} FROM ${objectName} WHERE ${keyField} IN (${chunk.map(soqlLiteral).join(', ')})`
+    );
+    for (;;) {
+      result.records.forEach((record: any) => {
+        // Records carry the field's own casing, which may differ from the one passed in
+        const returnedKey = Object.keys(record).find(field => field.toLowerCase() === keyField.toLowerCase());
+        current.set(normalizeRecordKey(keyField, returnedKey ? record[returnedKey] : undefined), record);
+      });
+      if (result.done) break;
+      result = await conn.queryMore(result.nextRecordsUrl.split('/').pop());
+    }
+  }
+  return current;
+}
+
+// Shape jsforce's SOAP client uses to convert a list of per-record results
+const SOAP_RECORD_RESULTS_SCHEMA = [{ id: 'string', success: 'boolean', errors: [] }];
+
+// Helper function to call a partner SOAP API operation that jsforce has no public method for. It relies on the
+// private SoapApi._invoke(method, message, schema) of jsforce 1.11, so this is the only place that uses it, and it
+// fails with a clear error instead of misbehaving if a jsforce upgrade removes it
+async function invokeSoapOperation(conn: any, method: string, message: Record<string, unknown>): Promise<DMLResult[]> {
+  if (typeof conn.soap?._invoke !== 'function') {
+    throw new Error(`The installed jsforce version does not provide SoapApi._invoke, which the ${method} call needs`);
+  }
+  const response = await conn.soap._invoke(method, message, SOAP_RECORD_RESULTS_SCHEMA);
+  return Array.isArray(response) ? response : [response];
+}
+
+/**
+ * Restores records from the recycle bin through the SOAP API (jsforce has no REST wrapper for undelete)
+ * @param conn Connected jsforce Connection
+ * @param ids Ids of deleted records
+ * @returns One result per Id, in input order
+ */
+export async function undeleteRecords(conn: any, ids: string[]): Promise<DMLResult[]> {
+  const results: DMLResult[] = [];
+  // The SOAP call accepts at most 200 Ids
+  for (let i = 0; i < ids.length; i += 200) {
+    results.push(...await invokeSoapOperation(conn, 'undelete', { ids: ids.slice(i, i + 200) }));
+  }
+  return results;
+}
+
+/**
+ * Finds which of the given Ids belong to deleted records that are still in the recycle bin
+ * @param conn Connected jsforce Connection
+ * @param objectName API name of the object
+ * @param ids Record Ids
+ * @returns Ids of the deleted records found, normalized with normalizeRecordKey
+ */
+export async function findDeletedRecordIds(conn: any, objectName: string, ids: string[]): Promise<Set<string>> {
+  const deleted = new Set<string>();
+  for (let i = 0; i < ids.length; i += KEYS_PER_QUERY) {
+    const chunk = ids.slice(i, i + KEYS_PER_QUERY);
+    let result = await conn.queryAll(
+      `SELECT Id FROM ${objectName} WHERE IsDeleted = true AND Id IN (${chunk.map(soqlLiteral).join(', ')})`
+    );
+    for (;;) {
+      result.records.forEach((record: any) => deleted.add(normalizeRecordKey('Id', record.Id)));
+      if (result.done) break;
+      result = await conn.queryMore(result.nextRecordsUrl.split('/').pop());
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Permanently deletes records from the recycle bin through the SOAP API
+ * @param conn Connected jsforce Connection
+ * @param ids Ids of deleted records
+ * @returns One result per Id, in input order
+ */
+export async function emptyRecycleBin(conn: any, ids: string[]): Promise<DMLResult[]> {
+  const results: DMLResult[] = [];
+  for (let i = 0; i < ids.length; i += 200) {
+    const response = await conn.soap.emptyRecycleBin(ids.slice(i, i + 200));
+    results.push(...(Array.isArray(response) ? response : [response]));
+  }
+  return results;
+}
@@ -0,0 +1,435 @@
+/**
+ * Lightweight SOQL parser used to validate raw queries before they are sent to the org
+ * and to work out which keys to read from each returned record. It checks structure
+ * (clause order, parentheses, quoting, select list shape) rather than full grammar.
+ */
+
+type TokenType = 'word' | 'number' | 'string' | 'punct';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  upper: string;
+  offset: number;
+}
+
+export interface SoqlSelectItem {
+  kind: 'field' | 'function' | 'subquery' | 'typeof';
+  /** Item as written in the query */
+  text: string;
+  /** Dot-notation path of the value in each returned record */
+  resultKey: string;
+  /** Parsed child query for parent-to-child subqueries */
+  subquery?: ParsedSoqlQuery;
+  /** Fields selected across all WHEN/ELSE branches of a TYPEOF expression */
+  typeofFields?: string[];
+  /** Whether a function item is an aggregate such as COUNT() or SUM() */
+  aggregate?: boolean;
+}
+
+export interface ParsedSoqlQuery {
+  objectName: string;
+  selectItems: SoqlSelectItem[];
+  /** Top-level clauses present, in query order (e.g. ['WHERE', 'ORDER BY', 'LIMIT']) */
+  clauses: string[];
+}
+
+const AGGREGATE_FUNCTIONS = ['AVG', 'COUNT', 'COUNT_DISTINCT', 'MIN', 'MAX', 'SUM'];
+
+// Clauses after FROM in the order SOQL requires them
+const CLAUSE_ORDER = ['USING SCOPE', 'WHERE', 'WITH', 'GROUP BY', 'HAVING', 'ORDER BY', 'LIMIT', 'OFFSET', 'FOR', 'UPDATE'];
+const RESERVED_WORDS = new Set(['SELECT', 'FROM', 'USING', 'WHERE', 'WITH', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'FOR', 'UPDATE', 'TYPEOF', 'WHEN', 'THEN', 'ELSE', 'END']);
+
+class SoqlSyntaxError extends Error {
+  constructor(message: string, public offset: number) {
+    super(message);
+  }
+}
+
+function tokenize(soql: string): Token[] {
+  const tokens: Token[] = [];
+  const push = (type: TokenType, value: string, offset: number) =>
+    tokens.push({ type, value, upper: value.toUpperCase(), offset });
+  let i = 0;
+
+  while (i < soql.length) {
+    const ch = soql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "'") {
+      const start = i++;
+      while (i < soql.length && soql[i] !== "'") {
+        i += soql[i] === '\\' ? 2 : 1;
+      }
+      if (i >= soql.length) {
+        throw new SoqlSyntaxError('Unterminated string literal', start);
+      }
+      i++;
+      push('string', soql.slice(start, i), start);
+      continue;
+    }
+
+    // Numbers, dates and datetimes (e.g. 42, -1.5, 2024-01-31, 2024-01-31T00:00:00Z)
+    const numberMatch = /^-?\d[\w.:+-]*/.exec(soql.slice(i));
+    if (numberMatch && (ch !== '-' || tokens.length === 0 || tokens[tokens.length - 1].type === 'punct')) {
+      push('number', numberMatch[0], i);
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const wordMatch = /^[A-Za-z_][\w.]*/.exec(soql.slice(i));
+    if (wordMatch) {
+      push('word', wordMatch[0], i);
+      i += wordMatch[0].length;
+      continue;
+    }
+
+    const punctMatch = /^(<=|>=|!=|<>|[(),=<>:])/.exec(soql.slice(i));
+    if (punctMatch) {
+      push('punct', punctMatch[0], i);
+      i += punctMatch[0].length;
+      continue;
+    }
+
+    throw new SoqlSyntaxError(`Unexpected character '${ch}'`, i);
+  }
+
+  // Check parentheses up front so later stages can rely on matching pairs
+  const open: Token[] = [];
+  for (const token of tokens) {
+    if (token.value === '(') open.push(token);
+    if (token.value === ')') {
+      if (open.length === 0) throw new SoqlSyntaxError("Unmatched ')'", token.offset);
+      open.pop();
+    }
+  }
+  if (open.length > 0) {
+    throw new SoqlSyntaxError("Unclosed '('", open[open.length - 1].offset);
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private unaliasedAggregates = 0;
+
+  constructor(private source: string, private tokens: Token[]) {}
+
+  private endOffset(end: number): number {
+    return end < this.tokens.length ? this.tokens[end].offset : this.source.length;
+  }
+
+  private text(start: number, end: number): string {
+    if (start >= end) return '';
+    const last = this.tokens[end - 1];
+    return this.source.slice(this.tokens[start].offset, last.offset + last.value.length);
+  }
+
+  private matchingParen(index: number): number {
+    let depth = 0;
+    for (let i = index; i < this.tokens.length; i++) {
+      if (this.tokens[i].value === '(') depth++;
+      if (this.tokens[i].value === ')' && --depth === 0) return i;
+    }
+    return this.tokens.length;
+  }
+
+  /**
+   * Parses a SELECT statement spanning tokens [start, end)
+   */
+  parseQuery(start: number, end: number): ParsedSoqlQuery {
+    if (start >= end || this.tokens[start].upper !== 'SELECT') {
+      throw new SoqlSyntaxError('Expected SELECT', this.endOffset(start));
+    }
+
+    // Locate FROM at this nesting level, skipping TYPEOF blocks and parentheses
+    let fromIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const token = this.tokens[i];
+      if (token.value === '(') {
+        i = this.matchingParen(i);
+      } else if (token.upper === 'TYPEOF') {
+        i = this.findTypeofEnd(i, end);
+      } else if (token.upper === 'FROM') {
+        fromIndex = i;
+        break;
+      }
+    }
+    if (fromIndex === -1) {
+      throw new SoqlSyntaxError('Missing FROM clause', this.endOffset(end));
+    }
+
+    const selectItems = this.parseSelectList(start + 1, fromIndex);
+
+    const objectToken = this.tokens[fromIndex + 1];
+    if (fromIndex + 1 >= end || objectToken.type !== 'word' || RESERVED_WORDS.has(objectToken.upper)) {
+      throw new SoqlSyntaxError('Expected an object name after FROM', this.endOffset(fromIndex + 1));
+    }
+
+    let index = fromIndex + 2;
+    // Optional object alias (e.g. FROM Account a)
+    if (index < end && this.tokens[index].type === 'word' && !RESERVED_WORDS.has(this.tokens[index].upper)) {
+      index++;
+    }
+
+    const clauses = this.parseClauses(index, end);
+    return { objectName: objectToken.value, selectItems, clauses };
+  }
+
+  private findTypeofEnd(start: number, end: number): number {
+    for (let i = start + 1; i < end; i++) {
+      if (this.tokens[i].upper === 'END') return i;
+    }
+    throw new SoqlSyntaxError('TYPEOF expression is missing END', this.tokens[start].offset);
+  }
+
+  private parseSelectList(start: number, end: number): SoqlSelectItem[] {
+    if (start >= end) {
+      throw new SoqlSyntaxError('SELECT list is empty', this.endOffset(start));
+    }
+
+    const items: SoqlSelectItem[] = [];
+    let itemStart = start;
+    for (let i = start; i <= end; i++) {
+      if (i < end && this.tokens[i].value === '(') {
+        i = this.matchingParen(i);
+        continue;
+      }
+      if (i < end && this.tokens[i].upper === 'TYPEOF') {
+        i = this.findTypeofEnd(i, end);
+        continue;
+      }
+      if (i === end || this.tokens[i].value === ',') {
+        if (itemStart === i) {
+          throw new SoqlSyntaxError('Empty field in SELECT list', this.endOffset(i));
+        }
+        items.push(this.parseSelectItem(itemStart, i));
+        itemStart = i + 1;
+      }
+    }
+    return items;
+  }
+
+  private parseSelectItem(start: number, end: number): SoqlSelectItem {
+    const first = this.tokens[start];
+    const text = this.text(start, end);
+
+    // Parent-to-child subquery: (SELECT ... FROM Relationship ...)
+    if (first.value === '(') {
+      const close = this.matchingParen(start);
+      if (close + 1 !== end) {
+        throw new SoqlSyntaxError('Unexpected token after subquery', this.tokens[close + 1].offset);
+      }
+      const subquery = this.parseQuery(start + 1, close);
+      return { kind: 'subquery', text, resultKey: subquery.objectName, subquery };
+    }
+
+    if (first.upper === 'TYPEOF') {
+      return this.parseTypeof(start, end, text);
+    }
+
+    if (first.type !== 'word' || RESERVED_WORDS.has(first.upper)) {
+      throw new SoqlSyntaxError(`Unexpected '${first.value}' in SELECT list`, first.offset);
+    }
+
+    // Function call, optionally aliased: COUNT(Id) total, toLabel(Status), FORMAT(Amount)
+    if (start + 1 < end && this.tokens[start + 1].value === '(') {
+      const close = this.matchingParen(start + 1);
+      const aliasToken = close + 1 < end ? this.tokens[close + 1] : undefined;
+      if (aliasToken && (aliasToken.type !== 'word' || close + 2 !== end)) {
+        throw new SoqlSyntaxError(`Unexpected '${aliasToken.value}' after ${first.value}()`, aliasToken.offset);
+      }
+
+      let resultKey: string;
+      if (aliasToken) {
+        resultKey = aliasToken.value;
+      } else if (AGGREGATE_FUNCTIONS.includes(first.upper)) {
+        resultKey = `expr${this.unaliasedAggregates++}`;
+      } else {
+        const argument = this.tokens[start + 2];
+        resultKey = argument && argument.type === 'word' ? argument.value : first.value;
+      }
+      return { kind: 'function', text, resultKey, aggregate: AGGREGATE_FUNCTIONS.includes(first.upper) };
+    }
+
+    if (start + 1 !== end) {
+      throw new SoqlSyntaxError(`Unexpected '${this.tokens[start + 1].value}' after field ${first.value}`, this.tokens[start + 1].offset);
+    }
+    return { kind: 'field', text, resultKey: first.value };
+  }
+
+  private parseTypeof(start: number, end: number, text: string): SoqlSelectItem {
+    const relationship = this.tokens[start + 1];
+    if (!relationship || start + 1 >= end || relationship.type !== 'word') {
+      throw new SoqlSyntaxError('Expected a relationship name after TYPEOF', this.endOffset(start + 1));
+    }
+    if (this.tokens[end - 1].upper !== 'END') {
+      throw new SoqlSyntaxError('TYPEOF expression is missing END', this.tokens[start].offset);
+    }
+
+    const fields: string[] = [];
+    let i = start + 2;
+    while (i < end - 1) {
+      const keyword = this.tokens[i];
+      if (keyword.upper === 'WHEN') {
+        const typeName = this.tokens[i + 1];
+        if (!typeName || typeName.type !== 'word' || this.tokens[i + 2]?.upper !== 'THEN') {
+          throw new SoqlSyntaxError('Expected WHEN <ObjectType> THEN <fields>', keyword.offset);
+        }
+        i += 3;
+      } else if (keyword.upper === 'ELSE') {
+        i += 1;
+      } else {
+        throw new SoqlSyntaxError(`Unexpected '${keyword.value}' in TYPEOF expression`, keyword.offset);
+      }
+
+      let sawField = false;
+      while (i < end - 1 && !['WHEN', 'ELSE'].includes(this.tokens[i].upper)) {
+        const token = this.tokens[i];
+        if (token.value !== ',') {
+          if (token.type !== 'word') {
+            throw new SoqlSyntaxError(`Unexpected '${token.value}' in TYPEOF field list`, token.offset);
+          }
+          const path = `${relationship.value}.${token.value}`;
+          if (!fields.includes(path)) fields.push(path);
+          sawField = true;
+        }
+        i++;
+      }
+      if (!sawField) {
+        throw new SoqlSyntaxError('TYPEOF branch has no fields', this.endOffset(i));
+      }
+    }
+
+    return { kind: 'typeof', text, resultKey: relationship.value, typeofFields: fields };
+  }
+
+  private clauseAt(index: number): { name: string; length: number } | null {
+    const token = this.tokens[index];
+    const next = this.tokens[index + 1];
+    if (!token || token.type !== 'word') return null;
+
+    switch (token.upper) {
+      case 'USING':
+        return next?.upper === 'SCOPE' ? { name: 'USING SCOPE', length: 2 } : null;
+      case 'GROUP':
+      case 'ORDER':
+        return next?.upper === 'BY' ? { name: `${token.upper} BY`, length: 2 } : null;
+      case 'WHERE':
+      case 'WITH':
+      case 'HAVING':
+      case 'LIMIT':
+      case 'OFFSET':
+      case 'FOR':
+      case 'UPDATE':
+        return { name: token.upper, length: 1 };
+      default:
+        return null;
+    }
+  }
+
+  private parseClauses(start: number, end: number): string[] {
+    const found: Array<{ name: string; index: number; bodyStart: number }> = [];
+
+    for (let i = start; i < end; i++) {
+      if (this.tokens[i].value === '(') {
+        this.validateNestedQueries(i);
+        i = this.matchingParen(i);
+        continue;
+      }
+      const clause = this.clauseAt(i);
+      if (clause) {
+        // FOR UPDATE: the UPDATE belongs to the FOR clause
+        if (clause.name === 'UPDATE' && found[found.length - 1]?.name === 'FOR' && found[found.length - 1].bodyStart === i) {
+          continue;
+        }
+        found.push({ name: clause.name, index: i, bodyStart: i + clause.length });
+        i += clause.length - 1;
+      } else if (found.length === 0) {
+        throw new SoqlSyntaxError(`Unexpected '${this.tokens[i].value}' after FROM clause`, this.tokens[i].offset);
+      }
+    }
+
+    let lastOrder = -1;
+    found.forEach((clause, n) => {
+      const order = CLAUSE_ORDER.indexOf(clause.name);
+      const offset = this.tokens[clause.index].offset;
+      if (order === lastOrder) {
+        throw new SoqlSyntaxError(`Duplicate ${clause.name} clause`, offset);
+      }
+      if (order < lastOrder) {
+        throw new SoqlSyntaxError(`${clause.name} must come before ${CLAUSE_ORDER[lastOrder]}`, offset);
+      }
+      lastOrder = order;
+
+      const bodyEnd = n + 1 < found.length ? found[n + 1].index : end;
+      const bodyLength = bodyEnd - clause.bodyStart;
+      if (bodyLength === 0) {
+        throw new SoqlSyntaxError(`${clause.name} clause is empty`, this.endOffset(clause.bodyStart));
+      }
+      if (clause.name === 'LIMIT' || clause.name === 'OFFSET') {
+        const value = this.tokens[clause.bodyStart];
+        const isBind = value.value === ':' && bodyLength === 2;
+        if (!isBind && (bodyLength !== 1 || value.type !== 'number' || !/^\d+$/.test(value.value))) {
+          throw new SoqlSyntaxError(`${clause.name} must be followed by a non-negative integer`, value.offset);
+        }
+      }
+    });
+
+    const names = found.map(clause => clause.name);
+    if (names.includes('HAVING') && !names.includes('GROUP BY')) {
+      throw new SoqlSyntaxError('HAVING requires a GROUP BY clause', this.tokens[found[names.indexOf('HAVING')].index].offset);
+    }
+    return names;
+  }
+
+  // Semi-join and anti-join subqueries inside WHERE/HAVING, e.g. Id IN (SELECT AccountId FROM Contact)
+  private validateNestedQueries(openIndex: number) {
+    const close = this.matchingParen(openIndex);
+    if (this.tokens[openIndex + 1]?.upper === 'SELECT') {
+      this.parseQuery(openIndex + 1, close);
+      return;
+    }
+    for (let i = openIndex + 1; i < close; i++) {
+      if (this.tokens[i].value === '(') {
+        this.validateNestedQueries(i);
+        i = this.matchingParen(i);
+      }
+    }
+  }
+}
+
+function describePosition(soql: string, offset: number): string {
+  const before = soql.slice(0, offset);
+  const line = before.split('\n').length;
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const lineEnd = soql.indexOf('\n', offset);
+  const column = offset - lineStart + 1;
+  const sourceLine = soql.slice(lineStart, lineEnd === -1 ? soql.length : lineEnd);
+  return `line ${line}, column ${column}:\n  ${sourceLine}\n  ${' '.repeat(column - 1)}^`;
+}
+
+/**
+ * Parses and validates a raw SOQL query
+ * @param soql Full SOQL query text
+ * @returns The parsed query, or an error message pointing at the offending position
+ */
+export function parseSoql(soql: string): { isValid: boolean; query?: ParsedSoqlQuery; error?: string } {
+  try {
+    const tokens = tokenize(soql);
+    const query = new Parser(soql, tokens).parseQuery(0, tokens.length);
+    return { isValid: true, query };
+  } catch (error) {
+    if (error instanceof SoqlSyntaxError) {
+      return {
+        isValid: false,
+        error: `SOQL syntax error: ${error.message} at ${describePosition(soql, error.offset)}`
+      };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,295 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import jsforce from 'jsforce';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { handleQueryRecords } from '../src/tools/query.js';
+import { parseCsv, runBulkIngestJob, runBulkQueryJob } from '../src/utils/bulkApi.js';
+import { HttpStub, StubRequest, sendJson, startHttpStub } from './helpers/httpStub.js';
+
+// Read once by getRuntimeConfig: allows two polls (at 0 and 500ms) before a job counts as stuck
+process.env.SALESFORCE_BULK_POLL_TIMEOUT = '1200';
+process.env.SALESFORCE_LOG_LEVEL = 'error';
+
+const API = '/services/data/v61.0';
+
+/**
+ * In-memory stand-in for the Bulk API 2.0 job endpoints
+ */
+interface BulkScenario {
+  /** Job states returned by successive status polls; the last one repeats */
+  states: string[];
+  errorMessage?: string;
+  /** Successful and failed result files */
+  results?: { successful: string; failed: string };
+  uploadStatus?: number;
+  /** Query result pages by locator ('' for the first page) */
+  pages?: Record<string, { csv: string; next: string }>;
+}
+
+function sendCsv(response: http.ServerResponse, csv: string, headers: Record<string, string> = {}) {
+  response.writeHead(200, { 'Content-Type': 'text/csv', ...headers });
+  response.end(csv);
+}
+
+describe('Bulk API 2.0 jobs', () => {
+  let stub: HttpStub;
+  let conn: any;
+  let scenario: BulkScenario;
+  let uploaded: string;
+  let polls: number;
+
+  const handle = (request: StubRequest, response: http.ServerResponse) => {
+    const url = new URL(request.url, 'http://stub');
+    const path = url.pathname.replace(API, '');
+
+    if (request.method === 'POST' && (path === '/jobs/ingest' || path === '/jobs/query')) {
+      sendJson(response, 200, { id: path === '/jobs/ingest' ? '750INGEST' : '750QUERY', state: 'Open' });
+    } else if (request.method === 'PUT' && path.endsWith('/batches')) {
+      uploaded = request.body;
+      if (scenario.uploadStatus) {
+        sendJson(response, scenario.uploadStatus, [{ errorCode: 'INVALIDDATA', message: 'bad CSV' }]);
+      } else {
+        response.writeHead(201);
+        response.end();
+      }
+    } else if (request.method === 'PATCH') {
+      sendJson(response, 200, { id: path.split('/').pop(), state: JSON.parse(request.body).state });
+    } else if (request.method === 'GET' && /^\/jobs\/(ingest|query)\/[^/]+$/.test(path)) {
+      const state = scenario.states[Math.min(polls++, scenario.states.length - 1)];
+      sendJson(response, 200, { id: path.split('/').pop(), state, errorMessage: scenario.errorMessage, numberRecordsProcessed: 3 });
+    } else if (path.endsWith('/successfulResults/') || path.endsWith('/failedResults/')) {
+      const files = scenario.results!;
+      sendCsv(response, path.endsWith('/successfulResults/') ? files.successful : files.failed);
+    } else if (path.endsWith('/results')) {
+      const page = scenario.pages![url.searchParams.get('locator') || ''];
+      sendCsv(response, page.csv, { 'Sforce-Locator': page.next });
+    } else {
+      sendJson(response, 404, [{ errorCode: 'NOT_FOUND', message: request.url }]);
+    }
+  };
+
+  before(async () => {
+    stub = await startHttpStub((request, response) => handle(request, response));
+    conn = new jsforce.Connection({ instanceUrl: stub.url, accessToken: 'token', version: '61.0' });
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    stub.requests.length = 0;
+    uploaded = '';
+    polls = 0;
+  });
+
+  describe('runBulkIngestJob', () => {
+    it('polls until the job finishes and reports each record', async () => {
+      scenario = {
+        states: ['InProgress', 'JobComplete'],
+        // Result files list the uploaded columns in their own order
+        results: {
+          successful: 'sf__Id,sf__Created,Amount,Name\n006A,true,10,First\n006C,true,30,Third\n',
+          failed: 'sf__Id,sf__Error,Amount,Name\n,REQUIRED_FIELD_MISSING:Close Date,20,Second\n'
+        }
+      };
+      const records = [
+        { Name: 'First', Amount: 10 },
+        { Name: 'Second', Amount: 20 },
+        { Name: 'Third', Amount: 30 },
+        { Name: 'Fourth', Amount: 40 }
+      ];
+
+      const job = await runBulkIngestJob(conn, 'Opportunity', 'insert', records);
+
+      assert.equal(job.jobId, '750INGEST');
+      assert.equal(job.state, 'JobComplete');
+      assert.equal(polls, 2);
+      assert.deepEqual(job.results, [
+        { index: 0, state: 'successful', id: '006A', created: true },
+        { index: 1, state: 'failed', id: undefined, error: 'REQUIRED_FIELD_MISSING:Close Date' },
+        { index: 2, state: 'successful', id: '006C', created: true },
+        { index: 3, state: 'unprocessed' }
+      ]);
+
+      const create = JSON.parse(stub.requests[0].body);
+      assert.deepEqual(create, { object: 'Opportunity', operation: 'insert', contentType: 'CSV', lineEnding: 'LF' });
+      assert.equal(uploaded, 'Name,Amount\nFirst,10\nSecond,20\nThird,30\nFourth,40');
+      assert.ok(stub.requests.some(request => request.method === 'PATCH' && JSON.parse(request.body).state === 'UploadComplete'));
+    });
+
+    it('matches duplicate rows to their input positions in order', async () => {
+      scenario = {
+        states: ['JobComplete'],
+        results: {
+          successful: 'sf__Id,sf__Created,Name\n001A,true,Same\n001B,true,Same\n',
+          failed: 'sf__Id,sf__Error,Name\n,DUPLICATE_VALUE:duplicate,Same\n'
+        }
+      };
+      const job = await runBulkIngestJob(conn, 'Account', 'insert', [{ Name: 'Same' }, { Name: 'Same' }, { Name: 'Same' }, { Name: 'Other' }]);
+
+      assert.deepEqual(job.results.map(result => [result.state, result.id]), [
+        ['successful', '001A'],
+        ['successful', '001B'],
+        ['failed', undefined],
+        ['unprocessed', undefined]
+      ]);
+    });
+
+    it('quotes values, clears nulls and matches quoted result rows', async () => {
+      scenario = {
+        states: ['JobComplete'],
+        results: {
+          successful: 'sf__Id,sf__Created,Id,Description,Phone\n' +
+            '0031,false,0031,"Line one\nLine ""two"", with comma",#N/A\n' +
+            '0032,false,0032,plain,\n',
+          failed: 'sf__Id,sf__Error\n'
+        }
+      };
+      const records = [
+        { Id: '0031', Description: 'Line one\nLine "two", with comma', Phone: null },
+        { Id: '0032', Description: 'plain' }
+      ];
+
+      const job = await runBulkIngestJob(conn, 'Contact', 'update', records);
+
+      assert.equal(uploaded, 'Id,Description,Phone\n0031,"Line one\nLine ""two"", with comma",#N/A\n0032,plain,');
+      assert.deepEqual(job.results.map(result => [result.state, result.id, result.created]), [
+        ['successful', '0031', false],
+        ['successful', '0032', false]
+      ]);
+    });
+
+    it('only uploads Ids for deletes and passes the external ID field for upserts', async () => {
+      scenario = { states: ['JobComplete'], results: { successful: '', failed: '' } };
+      await runBulkIngestJob(conn, 'Account', 'delete', [{ Id: '001A', Name: 'ignored' }]);
+      assert.equal(uploaded, 'Id\n001A');
+
+      await runBulkIngestJob(conn, 'Account', 'upsert', [{ Ext__c: 'X1', Name: 'A' }], 'Ext__c');
+      const create = stub.requests.filter(request => request.method === 'POST').pop()!;
+      assert.equal(JSON.parse(create.body).externalIdFieldName, 'Ext__c');
+    });
+
+    it('reports a failed job with its error message', async () => {
+      scenario = {
+        states: ['Failed'],
+        errorMessage: 'InvalidBatch : Field name not found : Nme',
+        results: { successful: '', failed: '' }
+      };
+      const job = await runBulkIngestJob(conn, 'Account', 'insert', [{ Nme: 'A' }]);
+
+      assert.equal(job.state, 'Failed');
+      assert.equal(job.errorMessage, 'InvalidBatch : Field name not found : Nme');
+      assert.equal(job.results[0].state, 'unprocessed');
+    });
+
+    it('aborts the job when the upload fails', async () => {
+      scenario = { states: ['JobComplete'], uploadStatus: 400 };
+      await assert.rejects(runBulkIngestJob(conn, 'Account', 'insert', [{ Name: 'A' }]), /bad CSV/);
+
+      const patch = stub.requests.find(request => request.method === 'PATCH')!;
+      assert.equal(JSON.parse(patch.body).state, 'Aborted');
+    });
+
+    it('gives up polling after the configured timeout', async () => {
+      scenario = { states: ['InProgress'] };
+      await assert.rejects(runBulkIngestJob(conn, 'Account', 'insert', [{ Name: 'A' }]), /Bulk job 750INGEST is still InProgress after 1s/);
+      assert.equal(polls, 2);
+    });
+  });
+
+  describe('runBulkQueryJob', () => {
+    it('returns the first page with a cursor built from the locator', async () => {
+      scenario = {
+        states: ['UploadComplete', 'JobComplete'],
+        pages: { '': { csv: 'Id,Name,Account.Name\n003A,"Doe, Jane",Acme\n003B,,\n', next: 'LOC2' } }
+      };
+
+      const page = await runBulkQueryJob(conn, 'SELECT Id, Name, Account.Name FROM Contact', undefined, 2);
+
+      assert.equal(page.jobId, '750QUERY');
+      assert.equal(page.totalSize, 3);
+      assert.equal(page.nextCursor, 'bulk:750QUERY:LOC2');
+      assert.deepEqual(page.records, [
+        { Id: '003A', Name: 'Doe, Jane', Account: { Name: 'Acme' } },
+        { Id: '003B', Name: null, Account: { Name: null } }
+      ]);
+      const create = JSON.parse(stub.requests[0].body);
+      assert.equal(create.query, 'SELECT Id, Name, Account.Name FROM Contact');
+      const results = stub.requests.find(request => request.url.includes('/results'))!;
+      assert.match(results.url, /maxRecords=2/);
+    });
+
+    it('continues from a cursor and stops at the last page', async () => {
+      scenario = {
+        states: ['JobComplete'],
+        pages: { LOC2: { csv: 'Id,Name,Account.Name\n003C,Last,Acme\n', next: 'null' } }
+      };
+
+      const page = await runBulkQueryJob(conn, '', 'bulk:750QUERY:LOC2', 2);
+
+      assert.ok(!stub.requests.some(request => request.method === 'POST'));
+      assert.match(stub.requests.find(request => request.url.includes('/results'))!.url, /locator=LOC2/);
+      assert.equal(page.nextCursor, undefined);
+      assert.deepEqual(page.records, [{ Id: '003C', Name: 'Last', Account: { Name: 'Acme' } }]);
+    });
+
+    it('throws when the query job fails', async () => {
+      scenario = { states: ['Failed'], errorMessage: 'INVALID_FIELD: No such column Nme' };
+      await assert.rejects(
+        runBulkQueryJob(conn, 'SELECT Nme FROM Contact', undefined, 10),
+        { message: 'Bulk query job 750QUERY failed: INVALID_FIELD: No such column Nme' }
+      );
+    });
+  });
+
+  describe('salesforce_query_records with useBulk', () => {
+    it('runs queries with clause keywords inside string literals as bulk jobs', async () => {
+      scenario = {
+        states: ['JobComplete'],
+        pages: { '': { csv: 'Id,Name\n001A,Group by region\n', next: 'null' } }
+      };
+
+      const result: any = await handleQueryRecords(conn, {
+        soql: "SELECT Id, Name FROM Account WHERE Name = 'Group by region' OR Description = 'count(offset)'",
+        useBulk: true,
+        outputFormat: 'json'
+      });
+
+      assert.equal(result.isError, false);
+      assert.ok(stub.requests.some(request => request.method === 'POST' && request.url.endsWith('/jobs/query')));
+      assert.deepEqual(JSON.parse(result.content[0].text).records, [{ Id: '001A', Name: 'Group by region' }]);
+    });
+
+    it('refuses clauses the Bulk API cannot run', async () => {
+      for (const soql of [
+        'SELECT Industry, COUNT(Id) FROM Account GROUP BY Industry',
+        'SELECT COUNT() FROM Account',
+        'SELECT Id FROM Account LIMIT 10 OFFSET 5',
+        'SELECT Id, (SELECT Id FROM Contacts) FROM Account'
+      ]) {
+        const result: any = await handleQueryRecords(conn, { soql, useBulk: true });
+        assert.equal(result.isError, true, soql);
+        assert.match(result.content[0].text, /Bulk API queries do not support/);
+      }
+      assert.equal(stub.requests.length, 0);
+    });
+  });
+});
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    assert.deepEqual(parseCsv('a,b\n1,2\n'), [['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps commas, escaped quotes and line breaks inside quoted cells', () => {
+    assert.deepEqual(parseCsv('Name,Note\n"Doe, Jane","said ""hi""\nthen left"\n'), [
+      ['Name', 'Note'],
+      ['Doe, Jane', 'said "hi"\nthen left']
+    ]);
+  });
+
+  it('handles CRLF line endings, empty cells and a missing final newline', () => {
+    assert.deepEqual(parseCsv('a,b,c\r\n,,x\r\n"",y,'), [['a', 'b', 'c'], ['', '', 'x'], ['', 'y', '']]);
+  });
+
+  it('returns no rows for empty input', () => {
+    assert.deepEqual(parseCsv(''), []);
+  });
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getFieldConversion } from '../src/utils/fieldConversion.js';
+
+describe('getFieldConversion', () => {
+  const allowed: Array<[string, string]> = [
+    ['Text', 'TextArea'],
+    ['Text', 'Number'],
+    ['Text', 'Picklist'],
+    ['TextArea', 'LongTextArea'],
+    ['Html', 'LongTextArea'],
+    ['Number', 'Currency'],
+    ['Percent', 'Text'],
+    ['DateTime', 'Date'],
+    ['Picklist', 'MultiselectPicklist'],
+    ['MultiselectPicklist', 'Picklist'],
+    ['AutoNumber', 'Text'],
+    ['Lookup', 'MasterDetail'],
+    ['MasterDetail', 'Lookup']
+  ];
+  for (const [from, to] of allowed) {
+    it(`allows ${from} to ${to}`, () => {
+      assert.equal(getFieldConversion(from, to).allowed, true);
+    });
+  }
+
+  const refused: Array<[string, string, RegExp]> = [
+    ['Formula', 'Text', /formula fields cannot be converted/],
+    ['Summary', 'Number', /roll-up summary fields cannot be converted/],
+    ['Checkbox', 'Text', /checkbox fields cannot be converted/],
+    ['Location', 'Text', /geolocation fields/],
+    ['EncryptedText', 'Text', /encrypted text fields/],
+    ['Text', 'Formula', /create a new field instead/],
+    ['Number', 'Summary', /create a new field instead/],
+    ['Text', 'Checkbox', /Text fields cannot be converted to Checkbox \(possible types: TextArea, /],
+    ['Date', 'Number', /Date fields cannot be converted to Number \(possible types: DateTime, Text\)/],
+    ['Lookup', 'Text', /Lookup fields cannot be converted to Text/],
+    ['Unknown', 'Text', /^Unknown fields cannot be converted to Text$/]
+  ];
+  for (const [from, to, reason] of refused) {
+    it(`refuses ${from} to ${to}`, () => {
+      const conversion = getFieldConversion(from, to);
+      assert.equal(conversion.allowed, false);
+      assert.match(conversion.reason!, reason);
+    });
+  }
+
+  it('keeps numeric values when moving between number types', () => {
+    const conversion = getFieldConversion('Currency', 'Percent');
+    assert.equal(conversion.check, undefined);
+    assert.equal(conversion.effect, undefined);
+  });
+
+  it('flags text values that are not numbers', () => {
+    const { check } = getFieldConversion('Text', 'Number');
+    assert.equal(check!('42'), undefined);
+    assert.equal(check!(' -1.5 '), undefined);
+    assert.equal(check!('12 units'), 'not a number, will be cleared');
+    assert.equal(check!('1e3'), 'not a number, will be cleared');
+  });
+
+  it('flags values longer than the new Text length', () => {
+    const { check } = getFieldConversion('LongTextArea', 'Text', 10);
+    assert.equal(check!('a'.repeat(10)), undefined);
+    assert.equal(check!('a'.repeat(11)), 'longer than 10 characters, will be truncated');
+  });
+
+  it('uses 255 characters when no Text length is given', () => {
+    const { check } = getFieldConversion('TextArea', 'Text');
+    assert.equal(check!('a'.repeat(255)), undefined);
+    assert.match(check!('a'.repeat(256))!, /longer than 255 characters/);
+  });
+
+  it('checks the fixed lengths of Phone and TextArea targets', () => {
+    assert.match(getFieldConversion('Text', 'Phone').check!('1'.repeat(41))!, /longer than 40 characters/);
+    assert.equal(getFieldConversion('Text', 'TextArea').check!('a'.repeat(255)), undefined);
+  });
+
+  it('flags values that are not email addresses or too long for Email', () => {
+    const { check } = getFieldConversion('Text', 'Email');
+    assert.equal(check!('someone@example.com'), undefined);
+    assert.equal(check!('not an address'), 'not an email address, will be cleared');
+    assert.match(check!(`${'a'.repeat(80)}@example.com`)!, /longer than 80 characters/);
+  });
+
+  it('flags multi-select values with more than one selection when moving to a single picklist', () => {
+    const { check } = getFieldConversion('MultiselectPicklist', 'Picklist');
+    assert.equal(check!('Red'), undefined);
+    assert.equal(check!('Red;Blue'), 'has several values selected, only one can be kept');
+  });
+
+  it('flags rich text formatting when Html becomes LongTextArea', () => {
+    const { check } = getFieldConversion('Html', 'LongTextArea');
+    assert.equal(check!('plain text'), undefined);
+    assert.equal(check!('<b>bold</b>'), 'rich text formatting will be removed');
+  });
+
+  it('describes effects that apply to every value', () => {
+    assert.match(getFieldConversion('DateTime', 'Date').effect!, /time of day is dropped/);
+    assert.match(getFieldConversion('Text', 'Picklist').effect!, /become values of the picklist/);
+    assert.match(getFieldConversion('Text', 'AutoNumber').effect!, /replaced by a generated number/);
+    assert.match(getFieldConversion('Lookup', 'MasterDetail').effect!, /every record must have a value/);
+  });
+});
@@ -0,0 +1,57 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * A request received by the stub server, with its body read in full
+ */
+export interface StubRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export type StubHandler = (request: StubRequest, response: http.ServerResponse) => void;
+
+export interface HttpStub {
+  /** Base URL of the stub, e.g. http://127.0.0.1:51234 */
+  url: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a local HTTP server standing in for a Salesforce endpoint
+ * @param handler Writes the response for each request
+ */
+export async function startHttpStub(handler: StubHandler): Promise<HttpStub> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const request = { method: req.method || 'GET', url: req.url || '/', headers: req.headers, body };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+/**
+ * Writes a JSON response
+ */
+export function sendJson(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
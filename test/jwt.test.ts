@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import querystring from 'querystring';
+import { after, before, describe, it } from 'node:test';
+import { ConnectionType } from '../src/types/connection.js';
+import { createSalesforceConnection, requestAccessToken } from '../src/utils/connection.js';
+import { createJwtBearerAssertion } from '../src/utils/jwt.js';
+import { HttpStub, sendJson, startHttpStub } from './helpers/httpStub.js';
+
+// Read once by getRuntimeConfig, so they have to be set before the first request
+process.env.SALESFORCE_TIMEOUT = '300';
+process.env.SALESFORCE_LOG_LEVEL = 'error';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' }
+});
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+function verifyAssertion(assertion: string): boolean {
+  const [header, payload, signature] = assertion.split('.');
+  return crypto.createVerify('RSA-SHA256').update(`${header}.${payload}`).verify(publicKey, Buffer.from(signature, 'base64url'));
+}
+
+describe('createJwtBearerAssertion', () => {
+  it('signs the claims with RS256', () => {
+    const before = Math.floor(Date.now() / 1000);
+    const assertion = createJwtBearerAssertion({
+      issuer: 'consumer-key',
+      subject: 'user@example.com',
+      audience: 'https://login.salesforce.com'
+    }, privateKey);
+
+    const [header, payload] = assertion.split('.');
+    assert.deepEqual(decodeSegment(header), { alg: 'RS256', typ: 'JWT' });
+    const claims = decodeSegment(payload);
+    assert.equal(claims.iss, 'consumer-key');
+    assert.equal(claims.sub, 'user@example.com');
+    assert.equal(claims.aud, 'https://login.salesforce.com');
+    assert.ok(claims.exp >= before + 180 && claims.exp <= before + 181);
+    assert.ok(verifyAssertion(assertion));
+    assert.doesNotMatch(assertion, /[=+/]/);
+  });
+
+  it('honors a shorter lifetime', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = createJwtBearerAssertion({ issuer: 'a', subject: 'b', audience: 'c', expiresIn: 60 }, privateKey);
+    assert.ok(decodeSegment(assertion.split('.')[1]).exp <= now + 61);
+  });
+});
+
+describe('requestAccessToken', () => {
+  let stub: HttpStub;
+  let respond: (body: string, response: any) => void;
+
+  before(async () => {
+    stub = await startHttpStub((request, response) => respond(request.body, response));
+  });
+  after(() => stub.close());
+
+  it('posts the form parameters to the token endpoint', async () => {
+    respond = (_body, response) => sendJson(response, 200, { access_token: 'token', instance_url: 'https://org.example.com' });
+    const result = await requestAccessToken(stub.url, { grant_type: 'client_credentials', client_id: 'id', client_secret: 's&cret' });
+
+    assert.equal(result.access_token, 'token');
+    const request = stub.requests.at(-1)!;
+    assert.equal(request.method, 'POST');
+    assert.equal(request.url, '/services/oauth2/token');
+    assert.equal(request.headers['content-type'], 'application/x-www-form-urlencoded');
+    assert.deepEqual({ ...querystring.parse(request.body) }, { grant_type: 'client_credentials', client_id: 'id', client_secret: 's&cret' });
+  });
+
+  it('rejects with the OAuth error of a failed request', async () => {
+    respond = (_body, response) => sendJson(response, 400, { error: 'invalid_grant', error_description: 'user hasn\'t approved this consumer' });
+    await assert.rejects(
+      requestAccessToken(stub.url, { grant_type: 'client_credentials' }),
+      { message: 'OAuth failed: invalid_grant - user hasn\'t approved this consumer' }
+    );
+  });
+
+  it('rejects a response that is not JSON', async () => {
+    respond = (_body, response) => {
+      response.writeHead(502, { 'Content-Type': 'text/html' });
+      response.end('<html>Bad gateway</html>');
+    };
+    await assert.rejects(requestAccessToken(stub.url, {}), /Failed to parse OAuth response/);
+  });
+
+  it('gives up after the configured timeout', async () => {
+    respond = () => { /* never answers */ };
+    await assert.rejects(requestAccessToken(stub.url, {}), { message: 'OAuth token request timed out after 300ms' });
+  });
+
+  it('rejects when the endpoint cannot be reached', async () => {
+    const closed = await startHttpStub(() => undefined);
+    await closed.close();
+    await assert.rejects(requestAccessToken(closed.url, {}), /ECONNREFUSED/);
+  });
+});
+
+describe('createSalesforceConnection with JWT bearer', () => {
+  let stub: HttpStub;
+  let keyFile: string;
+  let tokenStatus = 200;
+
+  before(async () => {
+    keyFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'sf-jwt-')), 'server.key');
+    fs.writeFileSync(keyFile, privateKey);
+    stub = await startHttpStub((request, response) => {
+      if (request.url === '/services/oauth2/token') {
+        const params = querystring.parse(request.body);
+        const assertion = String(params.assertion);
+        if (tokenStatus !== 200 || params.grant_type !== 'urn:ietf:params:oauth:grant-type:jwt-bearer' || !verifyAssertion(assertion)) {
+          sendJson(response, 400, { error: 'invalid_grant', error_description: 'invalid assertion' });
+          return;
+        }
+        sendJson(response, 200, { access_token: `token-for-${decodeSegment(assertion.split('.')[1]).sub}`, instance_url: stub.url });
+      } else if (request.url === '/services/data/') {
+        sendJson(response, 200, [{ version: '59.0' }, { version: '61.0' }, { version: '60.0' }]);
+      } else {
+        sendJson(response, 404, [{ errorCode: 'NOT_FOUND', message: request.url }]);
+      }
+    });
+  });
+  after(async () => {
+    await stub.close();
+    fs.rmSync(path.dirname(keyFile), { recursive: true, force: true });
+  });
+
+  const profile = () => ({
+    connectionType: ConnectionType.OAuth_2_0_JWT_Bearer,
+    instanceUrl: stub.url,
+    clientId: 'consumer-key',
+    username: 'user@example.com',
+    privateKeyPath: keyFile
+  });
+
+  it('exchanges a locally signed assertion for a session', async () => {
+    tokenStatus = 200;
+    const conn = await createSalesforceConnection(profile());
+
+    assert.equal(conn.accessToken, 'token-for-user@example.com');
+    assert.equal(conn.instanceUrl, stub.url);
+    assert.equal(conn.version, '61.0');
+
+    const tokenRequest = stub.requests.find(request => request.url === '/services/oauth2/token')!;
+    const claims = decodeSegment(String(querystring.parse(tokenRequest.body).assertion).split('.')[1]);
+    assert.equal(claims.iss, 'consumer-key');
+    assert.equal(claims.aud, stub.url);
+  });
+
+  it('fails with the token endpoint error', async () => {
+    tokenStatus = 400;
+    await assert.rejects(createSalesforceConnection(profile()), { message: 'OAuth failed: invalid_grant - invalid assertion' });
+  });
+
+  it('reports a missing private key file', async () => {
+    await assert.rejects(
+      createSalesforceConnection({ ...profile(), privateKeyPath: path.join(os.tmpdir(), 'missing-sf-key.pem') }),
+      /Failed to read private key/
+    );
+  });
+});
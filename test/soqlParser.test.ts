@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseSoql } from '../src/utils/soqlParser.js';
+
+function parse(soql: string) {
+  const result = parseSoql(soql);
+  assert.equal(result.isValid, true, result.error);
+  return result.query!;
+}
+
+function parseError(soql: string): string {
+  const result = parseSoql(soql);
+  assert.equal(result.isValid, false, `expected a syntax error for: ${soql}`);
+  return result.error!;
+}
+
+describe('parseSoql', () => {
+  it('reads fields, relationship paths and aliased functions', () => {
+    const query = parse('SELECT Id, Account.Name, toLabel(Status), COUNT(Id) total FROM Case GROUP BY Id, Account.Name, Status');
+
+    assert.equal(query.objectName, 'Case');
+    assert.deepEqual(query.selectItems.map(item => [item.kind, item.resultKey]), [
+      ['field', 'Id'],
+      ['field', 'Account.Name'],
+      ['function', 'Status'],
+      ['function', 'total']
+    ]);
+    assert.deepEqual(query.selectItems.map(item => Boolean(item.aggregate)), [false, false, false, true]);
+    assert.deepEqual(query.clauses, ['GROUP BY']);
+  });
+
+  it('numbers unaliased aggregates like the API does', () => {
+    const query = parse('SELECT COUNT(Id), MAX(Amount) FROM Opportunity');
+    assert.deepEqual(query.selectItems.map(item => item.resultKey), ['expr0', 'expr1']);
+  });
+
+  it('collects the fields of every TYPEOF branch', () => {
+    const query = parse(`SELECT Id, TYPEOF What WHEN Account THEN Name, Phone WHEN Opportunity THEN Name, Amount ELSE Name END FROM Event`);
+    const typeofItem = query.selectItems[1];
+
+    assert.equal(typeofItem.kind, 'typeof');
+    assert.equal(typeofItem.resultKey, 'What');
+    assert.deepEqual(typeofItem.typeofFields, ['What.Name', 'What.Phone', 'What.Amount']);
+  });
+
+  it('parses child subqueries in the select list', () => {
+    const query = parse('SELECT Name, (SELECT LastName FROM Contacts WHERE Email != null) FROM Account');
+    const child = query.selectItems[1];
+
+    assert.equal(child.kind, 'subquery');
+    assert.equal(child.resultKey, 'Contacts');
+    assert.deepEqual(child.subquery!.clauses, ['WHERE']);
+  });
+
+  it('accepts semi-joins and anti-joins in WHERE', () => {
+    const query = parse(`SELECT Id FROM Account
+      WHERE Id IN (SELECT AccountId FROM Contact WHERE LastName = 'Smith')
+      AND Id NOT IN (SELECT AccountId FROM Opportunity WHERE IsClosed = false)`);
+    assert.deepEqual(query.clauses, ['WHERE']);
+  });
+
+  it('reports errors inside semi-join subqueries', () => {
+    assert.match(parseError('SELECT Id FROM Account WHERE Id IN (SELECT AccountId WHERE Name = null)'), /Missing FROM clause/);
+  });
+
+  it('accepts USING SCOPE, WITH SECURITY_ENFORCED, OFFSET and FOR VIEW in clause order', () => {
+    const query = parse(`SELECT Id FROM Account USING SCOPE Mine WHERE Name LIKE 'A%' WITH SECURITY_ENFORCED
+      ORDER BY Name LIMIT 10 OFFSET 20 FOR VIEW`);
+    assert.deepEqual(query.clauses, ['USING SCOPE', 'WHERE', 'WITH', 'ORDER BY', 'LIMIT', 'OFFSET', 'FOR']);
+  });
+
+  it('treats FOR UPDATE as one clause', () => {
+    assert.deepEqual(parse('SELECT Id FROM Account LIMIT 1 FOR UPDATE').clauses, ['LIMIT', 'FOR']);
+  });
+
+  it('does not mistake keywords inside string literals for clauses', () => {
+    const query = parse(`SELECT Id FROM Account WHERE Description = 'Group by region, order by name' LIMIT 5`);
+    assert.deepEqual(query.clauses, ['WHERE', 'LIMIT']);
+  });
+
+  it('accepts bind variables for LIMIT and OFFSET', () => {
+    assert.deepEqual(parse('SELECT Id FROM Account LIMIT :pageSize OFFSET :start').clauses, ['LIMIT', 'OFFSET']);
+  });
+
+  it('reports the line and column of a missing FROM', () => {
+    const error = parseError('SELECT Id, Name\nWHERE Name = null');
+    assert.match(error, /Missing FROM clause at line 2, column 18/);
+  });
+
+  it('reports clauses out of order at the misplaced clause', () => {
+    const error = parseError('SELECT Id FROM Account\nLIMIT 5\nWHERE Name = null');
+    assert.match(error, /WHERE must come before LIMIT at line 3, column 1/);
+    assert.ok(error.endsWith('  WHERE Name = null\n  ^'), error);
+  });
+
+  it('reports an empty LIMIT at the end of the query', () => {
+    const error = parseError('SELECT Id FROM Account LIMIT');
+    assert.match(error, /LIMIT clause is empty at line 1, column 29/);
+  });
+
+  it('reports a LIMIT that is not a whole number', () => {
+    assert.match(parseError('SELECT Id FROM Account LIMIT 2.5'), /LIMIT must be followed by a non-negative integer at line 1, column 30/);
+  });
+
+  it('reports an unterminated string at its opening quote', () => {
+    const error = parseError("SELECT Id FROM Account\n  WHERE Name = 'Acme");
+    assert.match(error, /Unterminated string literal at line 2, column 16/);
+    assert.ok(error.endsWith("  WHERE Name = 'Acme\n                 ^"), error);
+  });
+
+  it('reports duplicate clauses, unbalanced parentheses and HAVING without GROUP BY', () => {
+    assert.match(parseError('SELECT Id FROM Account WHERE Name = null WHERE Id = null'), /Duplicate WHERE clause/);
+    assert.match(parseError('SELECT Id FROM Account WHERE (Name = null'), /Unclosed '\('/);
+    assert.match(parseError('SELECT COUNT(Id) FROM Account HAVING COUNT(Id) > 1'), /HAVING requires a GROUP BY clause/);
+  });
+
+  it('reports a TYPEOF without END', () => {
+    assert.match(parseError('SELECT TYPEOF What WHEN Account THEN Name FROM Event'), /TYPEOF expression is missing END at line 1, column 8/);
+  });
+});